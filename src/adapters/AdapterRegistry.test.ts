@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { AdapterRegistry, adapterRegistry } from './AdapterRegistry';
+import type { FormatAdapter } from './FormatAdapter';
+
+function createAdapter(format: string, extensions: string[], magic?: string): FormatAdapter {
+  return {
+    format,
+    label: format.toUpperCase(),
+    version: 1,
+    extensions,
+    sniff: magic
+      ? (header: Uint8Array) => String.fromCharCode(...header.subarray(0, magic.length)) === magic
+      : undefined,
+    parse: async () => { throw new Error('not implemented'); },
+    loadChapter: async () => []
+  };
+}
+
+describe('AdapterRegistry', () => {
+  describe('Built-in Adapters', () => {
+    it('should register txt, epub and mobi adapters', () => {
+      expect(adapterRegistry.has('txt')).toBe(true);
+      expect(adapterRegistry.has('epub')).toBe(true);
+      expect(adapterRegistry.has('mobi')).toBe(true);
+    });
+
+    it('should detect built-in formats by extension (case-insensitive)', () => {
+      expect(adapterRegistry.detect('novel.TXT')?.format).toBe('txt');
+      expect(adapterRegistry.detect('book.epub')?.format).toBe('epub');
+      expect(adapterRegistry.detect('kindle.azw3')?.format).toBe('mobi');
+      expect(adapterRegistry.detect('novel.fb2.zip')?.format).toBe('fb2');
+      expect(adapterRegistry.detect('archive.rar')).toBeNull();
+    });
+
+    it('should detect EPUB by its mimetype magic bytes', () => {
+      const header = new Uint8Array(AdapterRegistry.HEADER_SIZE);
+      header.set([0x50, 0x4b, 0x03, 0x04]);
+      header.set(Array.from('mimetypeapplication/epub+zip', c => c.charCodeAt(0)), 30);
+
+      expect(adapterRegistry.detect('download', header)?.format).toBe('epub');
+    });
+
+    it('should build accept attribute from all extensions', () => {
+      expect(adapterRegistry.acceptAttribute()).toBe('.txt,.epub,.mobi,.azw,.azw3,.fb2,.fb2.zip,.cbz,.html,.htm,.xhtml,.htmlz,.md,.markdown,.textpack,.pdf');
+    });
+  });
+
+  describe('Custom Adapters', () => {
+    it('should throw for unregistered formats', () => {
+      const registry = new AdapterRegistry();
+      expect(() => registry.get('mobi')).toThrow('不支持的书籍格式');
+    });
+
+    it('should prefer the longest matching extension', () => {
+      const registry = new AdapterRegistry();
+      registry.register(createAdapter('zip', ['.zip']));
+      registry.register(createAdapter('fb2', ['.fb2', '.fb2.zip']));
+
+      expect(registry.detect('book.fb2.zip')?.format).toBe('fb2');
+      expect(registry.detect('book.zip')?.format).toBe('zip');
+    });
+
+    it('should fall back to magic bytes when extension is unknown', () => {
+      const registry = new AdapterRegistry();
+      registry.register(createAdapter('demo', ['.demo'], 'DEMO'));
+
+      const header = new Uint8Array([0x44, 0x45, 0x4d, 0x4f]);
+      expect(registry.detect('unknown.bin', header)?.format).toBe('demo');
+      expect(registry.detect('unknown.bin')).toBeNull();
+    });
+  });
+});
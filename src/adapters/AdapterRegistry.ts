@@ -0,0 +1,131 @@
+/**
+ * 格式适配器注册表
+ * 统一管理所有 FormatAdapter，负责按格式标识查找适配器、按文件名/魔数识别格式
+ * 新增格式时只需在此注册，无需修改阅读器、缓存和书库代码
+ */
+
+import type { BookFormat } from '@/types/book';
+import type { FormatAdapter } from './FormatAdapter';
+import { TxtAdapter } from './TxtAdapter';
+import { EpubAdapter } from './EpubAdapter';
+import { MobiAdapter } from './MobiAdapter';
+import { Fb2Adapter } from './Fb2Adapter';
+import { CbzAdapter } from './CbzAdapter';
+import { HtmlAdapter } from './HtmlAdapter';
+import { MarkdownAdapter } from './MarkdownAdapter';
+import { PdfAdapter } from './PdfAdapter';
+
+export class AdapterRegistry {
+  /**
+   * 魔数检测读取的文件头字节数
+   */
+  static readonly HEADER_SIZE = 128;
+
+  private adapters: Map<BookFormat, FormatAdapter> = new Map();
+
+  /**
+   * 注册适配器（同一格式重复注册时覆盖旧的适配器）
+   */
+  register(adapter: FormatAdapter): void {
+    if (this.adapters.has(adapter.format)) {
+      console.warn('[AdapterRegistry] 覆盖已注册的适配器:', adapter.format);
+    }
+    this.adapters.set(adapter.format, adapter);
+  }
+
+  /**
+   * 是否已注册某格式
+   */
+  has(format: BookFormat): boolean {
+    return this.adapters.has(format);
+  }
+
+  /**
+   * 获取格式对应的适配器
+   * @throws 未注册的格式
+   */
+  get(format: BookFormat): FormatAdapter {
+    const adapter = this.adapters.get(format);
+    if (!adapter) {
+      throw new Error(`不支持的书籍格式: ${format}`);
+    }
+    return adapter;
+  }
+
+  /**
+   * 所有已注册的适配器（按注册顺序）
+   */
+  list(): FormatAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  /**
+   * 根据文件名扩展名查找适配器
+   * 优先匹配更长的扩展名（如 .fb2.zip 优先于 .zip）
+   */
+  findByFilename(filename: string): FormatAdapter | null {
+    const name = filename.toLowerCase();
+    let matched: FormatAdapter | null = null;
+    let matchedLength = 0;
+
+    for (const adapter of this.adapters.values()) {
+      for (const ext of adapter.extensions) {
+        if (name.endsWith(ext) && ext.length > matchedLength) {
+          matched = adapter;
+          matchedLength = ext.length;
+        }
+      }
+    }
+
+    return matched;
+  }
+
+  /**
+   * 根据文件头魔数查找适配器
+   */
+  findByHeader(header: Uint8Array): FormatAdapter | null {
+    for (const adapter of this.adapters.values()) {
+      if (adapter.sniff && adapter.sniff(header)) {
+        return adapter;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 识别文件格式：先按扩展名，失败再按魔数
+   * @param filename - 文件名
+   * @param header - 文件头字节（可选）
+   */
+  detect(filename: string, header?: Uint8Array): FormatAdapter | null {
+    return this.findByFilename(filename) || (header ? this.findByHeader(header) : null);
+  }
+
+  /**
+   * 文件选择框的 accept 属性值，如 ".epub,.txt"
+   */
+  acceptAttribute(): string {
+    return this.list().flatMap(a => a.extensions).join(',');
+  }
+
+  /**
+   * 支持格式的展示名称，如 "EPUB / TXT"
+   */
+  describe(): string {
+    return this.list().map(a => a.label).join(' / ');
+  }
+}
+
+/**
+ * 全局注册表实例，内置 TXT、EPUB、MOBI/AZW3、FB2、CBZ、HTML、Markdown 和 PDF 适配器
+ * 注意：EPUB 必须先于 CBZ 注册，两者都是 ZIP，魔数检测按注册顺序进行
+ */
+export const adapterRegistry = new AdapterRegistry();
+adapterRegistry.register(TxtAdapter);
+adapterRegistry.register(EpubAdapter);
+adapterRegistry.register(MobiAdapter);
+adapterRegistry.register(Fb2Adapter);
+adapterRegistry.register(CbzAdapter);
+adapterRegistry.register(HtmlAdapter);
+adapterRegistry.register(MarkdownAdapter);
+adapterRegistry.register(PdfAdapter);
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import JSZip from 'jszip';
+import { CbzAdapter } from './CbzAdapter';
+
+async function buildCbz(files: string[]): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  for (const name of files) {
+    zip.file(name, new Uint8Array([0xff, 0xd8, 0xff]));
+  }
+  return await zip.generateAsync({ type: 'arraybuffer' });
+}
+
+describe('CbzAdapter', () => {
+  it('should use one chapter per folder with natural page order', async () => {
+    const buffer = await buildCbz([
+      'Vol 2/page10.jpg',
+      'Vol 1/page10.jpg',
+      'Vol 1/page2.jpg',
+      'Vol 1/page1.jpg',
+      'Vol 2/page1.jpg',
+      '__MACOSX/Vol 1/._page1.jpg',
+      'Vol 1/info.txt'
+    ]);
+    const book = await CbzAdapter.parse(buffer, 'comic.cbz');
+
+    expect(book.title).toBe('comic');
+    expect(book.cover?.type).toBe('image/jpeg');
+    expect(book.chapters.map(c => c.title)).toEqual(['Vol 1', 'Vol 2']);
+
+    const layers = await CbzAdapter.loadChapter(book, 0);
+    expect(layers).toHaveLength(3);
+    expect(layers.map(l => l.startIndex)).toEqual([0, 1, 2]);
+    expect(layers.every(l => l.paragraphs.length === 0 && l.image?.startsWith('blob:'))).toBe(true);
+  });
+
+  it('should split a flat archive every PAGES_PER_CHAPTER pages', async () => {
+    const count = CbzAdapter.PAGES_PER_CHAPTER + 5;
+    const buffer = await buildCbz(Array.from({ length: count }, (_, i) => `${i + 1}.png`));
+    const book = await CbzAdapter.parse(buffer, 'flat.cbz');
+
+    expect(book.chapters).toHaveLength(2);
+    expect(book.chapters[1].title).toBe(`第 ${CbzAdapter.PAGES_PER_CHAPTER + 1}-${count} 页`);
+  });
+
+  it('should revoke created page URLs when the load is cancelled', async () => {
+    const buffer = await buildCbz(['1.jpg', '2.jpg', '3.jpg']);
+    const book = await CbzAdapter.parse(buffer, 'comic.cbz');
+    const controller = new AbortController();
+
+    // 第一页创建 Blob URL 后取消
+    const createObjectURL = URL.createObjectURL.bind(URL);
+    const created: string[] = [];
+    vi.spyOn(URL, 'createObjectURL').mockImplementation(blob => {
+      const url = createObjectURL(blob);
+      created.push(url);
+      controller.abort();
+      return url;
+    });
+    const revokeObjectURL = vi.spyOn(URL, 'revokeObjectURL');
+
+    await expect(CbzAdapter.loadChapter(book, 0, controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+    expect(created).toHaveLength(1);
+    expect(revokeObjectURL).toHaveBeenCalledWith(created[0]);
+
+    vi.restoreAllMocks();
+  });
+
+  it('should sniff zips whose first entry is an image', async () => {
+    const buffer = await buildCbz(['001.jpg']);
+    expect(CbzAdapter.sniff(new Uint8Array(buffer.slice(0, 128)))).toBe(true);
+  });
+});
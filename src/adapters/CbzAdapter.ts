@@ -0,0 +1,253 @@
+/**
+ * 漫画压缩包（CBZ）格式适配器
+ * 将 ZIP 中的图片转换为纯图片 layer（paragraphs 为空，每页占用 1 个索引位）
+ *
+ * 分章规则：
+ * - 图片分布在多个文件夹中：每个文件夹为一章
+ * - 所有图片在同一文件夹：每 PAGES_PER_CHAPTER 页为一章
+ * 页面按文件名自然排序（page2 < page10），第一页作为封面
+ */
+
+import JSZip from 'jszip';
+import type { UnifiedBook, UnifiedChapter, ContentLayer } from '@/types/book';
+import { LayerBuilder } from './LayerBuilder';
+
+/**
+ * 章节对应的页面路径
+ */
+interface CbzChapter {
+  title: string;
+  pages: string[];
+}
+
+/**
+ * 已打开的压缩包，按书缓存，避免每章重复读取目录
+ */
+interface CbzContent {
+  zip: JSZip;
+  chapters: CbzChapter[];
+}
+
+export class CbzAdapter {
+  /**
+   * FormatAdapter 元信息
+   */
+  static readonly format = 'cbz';
+  static readonly label = 'CBZ';
+  static readonly version = 1;
+  static readonly extensions = ['.cbz'];
+
+  /**
+   * 单文件夹漫画每章页数
+   */
+  static readonly PAGES_PER_CHAPTER = 20;
+
+  /**
+   * 支持的图片扩展名及 MIME 类型
+   */
+  private static readonly IMAGE_TYPES: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    bmp: 'image/bmp',
+    avif: 'image/avif'
+  };
+
+  /**
+   * 自然排序比较器（数字按数值比较）
+   */
+  private static readonly collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+  /**
+   * 已打开压缩包缓存（以原始数据为键，书籍关闭时由 dispose 释放）
+   */
+  private static contentCache: WeakMap<ArrayBuffer, CbzContent> = new WeakMap();
+
+  /**
+   * 魔数检测：ZIP 文件且第一个条目是图片或文件夹
+   * （EPUB 第一个条目固定为 mimetype，由 EpubAdapter 优先识别）
+   */
+  static sniff(header: Uint8Array): boolean {
+    if (header.length < 30) return false;
+    if (header[0] !== 0x50 || header[1] !== 0x4b || header[2] !== 0x03 || header[3] !== 0x04) {
+      return false;
+    }
+    const nameLength = header[26] | (header[27] << 8);
+    const name = String.fromCharCode(...header.subarray(30, Math.min(header.length, 30 + nameLength)));
+    return name.endsWith('/') || this.getImageType(name) !== null;
+  }
+
+  /**
+   * 解析 CBZ 文件为 UnifiedBook
+   */
+  static async parse(
+    arrayBuffer: ArrayBuffer,
+    filename: string
+  ): Promise<UnifiedBook> {
+    console.log('[CbzAdapter] 开始解析 CBZ 文件:', filename);
+
+    // 1. 读取压缩包目录并分章
+    const content = await this.getContent(arrayBuffer);
+    if (content.chapters.length === 0) {
+      throw new Error('压缩包中没有图片');
+    }
+
+    // 2. 第一页作为封面
+    const firstPage = content.chapters[0].pages[0];
+    const cover = await this.readPage(content.zip, firstPage);
+
+    // 3. 生成目录（懒加载，不解析内容）
+    const chapters: UnifiedChapter[] = content.chapters.map((chapter, i) => ({
+      id: i,
+      title: chapter.title,
+      layers: [],
+      isLoaded: false
+    }));
+    console.log('[CbzAdapter] 检测到章节数:', chapters.length);
+
+    // 4. 构建 UnifiedBook
+    const book: UnifiedBook = {
+      title: filename.replace(/\.cbz$/i, ''),
+      author: 'Unknown',
+      cover,
+      format: 'cbz',
+      chapters,
+      rawData: arrayBuffer,
+      addTime: Date.now()
+    };
+
+    return book;
+  }
+
+  /**
+   * 懒加载：将章节的每一页转换为纯图片 layer
+   */
+  static async loadChapter(
+    book: UnifiedBook,
+    chapterId: number,
+    signal?: AbortSignal
+  ): Promise<ContentLayer[]> {
+    console.log('[CbzAdapter] 懒加载章节:', chapterId);
+
+    const chapter = book.chapters[chapterId];
+    if (!chapter) {
+      throw new Error(`章节 ${chapterId} 不存在`);
+    }
+
+    // 如果已加载，直接返回
+    if (chapter.isLoaded && chapter.layers.length > 0) {
+      console.log('[CbzAdapter] 章节已缓存，直接返回');
+      return chapter.layers;
+    }
+
+    const content = await this.getContent(book.rawData);
+    const pages = content.chapters[chapterId]?.pages || [];
+    const layers: ContentLayer[] = [];
+
+    for (const path of pages) {
+      // 取消时停止读取后续页面，已创建的图片在下方统一释放
+      if (signal?.aborted) break;
+
+      const blob = await this.readPage(content.zip, path);
+      if (!blob) continue;
+
+      // 纯图片 layer：图片占用 1 个索引位
+      layers.push({
+        paragraphs: [],
+        startIndex: layers.length,
+        image: URL.createObjectURL(blob),
+        imageSize: blob.size
+      });
+    }
+    LayerBuilder.discardIfAborted(layers, signal);
+
+    console.log('[CbzAdapter] 章节解析完成，页数:', layers.length);
+    return layers;
+  }
+
+  /**
+   * 释放压缩包缓存
+   */
+  static dispose(book: UnifiedBook): void {
+    this.contentCache.delete(book.rawData);
+  }
+
+  /**
+   * 获取已打开的压缩包（缓存未命中时重新读取）
+   */
+  private static async getContent(arrayBuffer: ArrayBuffer): Promise<CbzContent> {
+    const cached = this.contentCache.get(arrayBuffer);
+    if (cached) return cached;
+
+    const zip = await JSZip.loadAsync(arrayBuffer);
+    const paths = Object.values(zip.files)
+      .filter(f => !f.dir && this.getImageType(f.name) !== null && !this.isHidden(f.name))
+      .map(f => f.name)
+      .sort((a, b) => this.collator.compare(a, b));
+
+    const content: CbzContent = { zip, chapters: this.groupPages(paths) };
+    this.contentCache.set(arrayBuffer, content);
+    return content;
+  }
+
+  /**
+   * 将页面分组为章节
+   */
+  private static groupPages(paths: string[]): CbzChapter[] {
+    const folders = new Map<string, string[]>();
+    for (const path of paths) {
+      const folder = path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+      const pages = folders.get(folder) || [];
+      pages.push(path);
+      folders.set(folder, pages);
+    }
+
+    // 多个文件夹：每个文件夹一章
+    if (folders.size > 1) {
+      return Array.from(folders.entries()).map(([folder, pages]) => ({
+        title: folder.split('/').pop() || '未分类',
+        pages
+      }));
+    }
+
+    // 单文件夹：按页数切分
+    const chapters: CbzChapter[] = [];
+    for (let start = 0; start < paths.length; start += this.PAGES_PER_CHAPTER) {
+      const pages = paths.slice(start, start + this.PAGES_PER_CHAPTER);
+      chapters.push({
+        title: `第 ${start + 1}-${start + pages.length} 页`,
+        pages
+      });
+    }
+    return chapters;
+  }
+
+  /**
+   * 读取页面图片为 Blob
+   */
+  private static async readPage(zip: JSZip, path: string): Promise<Blob | null> {
+    const file = zip.file(path);
+    const type = this.getImageType(path);
+    if (!file || !type) return null;
+
+    const data = await file.async('uint8array');
+    return new Blob([data], { type });
+  }
+
+  /**
+   * 根据扩展名获取图片 MIME 类型
+   */
+  private static getImageType(path: string): string | null {
+    const ext = path.substring(path.lastIndexOf('.') + 1).toLowerCase();
+    return this.IMAGE_TYPES[ext] || null;
+  }
+
+  /**
+   * 系统生成的隐藏文件（__MACOSX、.DS_Store 等）
+   */
+  private static isHidden(path: string): boolean {
+    return path.split('/').some(part => part.startsWith('.') || part === '__MACOSX');
+  }
+}
@@ -0,0 +1,303 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import JSZip from 'jszip';
+import { EpubAdapter } from './EpubAdapter';
+
+async function buildEpub(
+  files: Record<string, string>,
+  spine: string[],
+  nav: string,
+  metadata = '<dc:title>Test</dc:title><dc:identifier id="id">x</dc:identifier>'
+): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file('META-INF/container.xml', `<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>`);
+  const items = spine.map((href, i) => `<item id="s${i}" href="${href}" media-type="application/xhtml+xml"/>`).join('');
+  zip.file('OEBPS/content.opf', `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" xmlns:opf="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="id">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">${metadata}</metadata>
+  <manifest><item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>${items}</manifest>
+  <spine>${spine.map((_, i) => `<itemref idref="s${i}"/>`).join('')}</spine>
+</package>`);
+  zip.file('OEBPS/nav.xhtml', `<?xml version="1.0"?>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops"><body><nav epub:type="toc">${nav}</nav></body></html>`);
+  for (const [name, body] of Object.entries(files)) {
+    zip.file(`OEBPS/${name}`, `<?xml version="1.0"?>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops"><head><title>t</title></head><body>${body}</body></html>`);
+  }
+  return await zip.generateAsync({ type: 'arraybuffer' });
+}
+
+const NESTED_NAV = `<ol>
+  <li><a href="text/part1.xhtml">Part One</a><ol>
+    <li><a href="text/part1.xhtml#c1">Chapter 1</a></li>
+    <li><a href="text/part1.xhtml#c2">Chapter 2</a></li>
+  </ol></li>
+  <li><span>Part Two</span><ol><li><a href="text/c3.xhtml">Chapter 3</a></li></ol></li>
+</ol>`;
+
+const PART_ONE = [
+  '<h1>Part One</h1>',
+  '<section><h2 id="c1">Chapter 1</h2><p>First <em>emphasis</em> and <strong>bold</strong>.</p></section>',
+  '<section><h2 id="c2">Chapter 2</h2><p>See <a href="c3.xhtml#n1">note</a> or <a href="https://example.com">site</a> (<a href="javascript:alert(1)">run</a>, <a href=" DATA:text/html,x">data</a>).</p></section>'
+].join('');
+
+const CHAPTER_THREE = '<p><ruby>漢<rt>かん</rt>字<rt>じ</rt></ruby>E=mc<sup>2</sup></p><p id="n1">Target</p>';
+
+describe('EpubAdapter', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const build = () => buildEpub(
+    { 'text/part1.xhtml': PART_ONE, 'text/c3.xhtml': CHAPTER_THREE },
+    ['text/part1.xhtml', 'text/c3.xhtml'],
+    NESTED_NAV
+  );
+
+  it('should flatten nested TOC entries with levels, parents and anchors', async () => {
+    const book = await EpubAdapter.parse(await build(), 'nested.epub');
+
+    expect(book.chapters.map(c => [c.title, c.level, c.parentId, c.anchor])).toEqual([
+      ['Part One', 0, undefined, undefined],
+      ['Chapter 1', 1, 0, 'c1'],
+      ['Chapter 2', 1, 0, 'c2'],
+      ['Part Two', 0, undefined, undefined],
+      ['Chapter 3', 1, 3, undefined]
+    ]);
+
+    expect((await EpubAdapter.loadChapter(book, 0))[0].paragraphs).toEqual(['Part One']);
+    expect((await EpubAdapter.loadChapter(book, 1))[0].paragraphs).toEqual(['Chapter 1', 'First emphasis and bold.']);
+    expect(await EpubAdapter.loadChapter(book, 3)).toEqual([]);
+  });
+
+  it('should keep inline marks, ruby and links as runs', async () => {
+    const book = await EpubAdapter.parse(await build(), 'inline.epub');
+
+    const [first] = await EpubAdapter.loadChapter(book, 1);
+    expect(first.runs?.[0]).toBeNull();
+    expect(first.runs?.[1]).toEqual([
+      { text: 'First ' },
+      { text: 'emphasis', marks: ['em'] },
+      { text: ' and ' },
+      { text: 'bold', marks: ['strong'] },
+      { text: '.' }
+    ]);
+
+    const [second] = await EpubAdapter.loadChapter(book, 2);
+    expect(second.runs?.[1]?.filter(run => run.link).map(run => run.link)).toEqual([
+      { href: 'text/c3.xhtml', anchor: 'n1' },
+      { href: 'https://example.com', external: true }
+    ]);
+    // javascript: 和 data: 链接按普通文本显示
+    expect(second.paragraphs[1]).toBe('See note or site (run, data).');
+
+    const [third] = await EpubAdapter.loadChapter(book, 4);
+    expect(third.paragraphs).toEqual(['漢字E=mc2', 'Target']);
+    expect(third.runs?.[0]).toEqual([
+      { text: '漢', ruby: 'かん' },
+      { text: '字', ruby: 'じ' },
+      { text: 'E=mc' },
+      { text: '2', marks: ['sup'] }
+    ]);
+    expect(third.anchors).toEqual({ n1: 1 });
+  });
+
+  it('should attach footnotes and endnotes to the referencing paragraph', async () => {
+    const chapter = [
+      '<p>Claim<a epub:type="noteref" href="#fn1">1</a> and another<a href="notes.xhtml#en1"><sup>[2]</sup></a>.</p>',
+      '<aside epub:type="footnote" id="fn1"><p>Footnote text.</p></aside>',
+      '<p>Last paragraph.</p>'
+    ].join('');
+    const notes = '<h1>Notes</h1><p id="en1"><a href="ch.xhtml#r2">↩</a> Endnote <em>text</em>.</p>';
+    const book = await EpubAdapter.parse(
+      await buildEpub(
+        { 'ch.xhtml': chapter, 'notes.xhtml': notes },
+        ['ch.xhtml', 'notes.xhtml'],
+        '<ol><li><a href="ch.xhtml">Chapter</a></li><li><a href="notes.xhtml">Notes</a></li></ol>'
+      ),
+      'notes.epub'
+    );
+
+    const [layer] = await EpubAdapter.loadChapter(book, 0);
+    expect(layer.paragraphs).toEqual(['Claim1 and another[2].', 'Last paragraph.']);
+    expect(layer.runs?.[0]?.filter(run => run.note).map(run => [run.text, run.note])).toEqual([
+      ['1', { id: 'fn1', kind: 'footnote', paragraphs: ['Footnote text.'] }],
+      ['[2]', { id: 'en1', kind: 'endnote', paragraphs: ['Endnote text.'] }]
+    ]);
+
+    // 注释文件本身作为章节时，反向链接不当作注释引用
+    const [notesLayer] = await EpubAdapter.loadChapter(book, 1);
+    expect(notesLayer.paragraphs).toEqual(['Notes', '↩ Endnote text.']);
+    expect(notesLayer.runs?.[1]?.[0].link).toEqual({ href: 'ch.xhtml', anchor: 'r2' });
+  });
+
+  it('should keep cross-references to sections and headings in the chapter', async () => {
+    const chapter = [
+      '<p>See section <a href="#sec2">2</a> and <a href="#h3">iii</a>.</p>',
+      '<div id="sec2"><p>Section body.</p></div>',
+      '<h2 id="h3">Heading</h2>',
+      '<section id="s4"><p>Typed ref<a epub:type="noteref" href="#s4">4</a>.</p></section>'
+    ].join('');
+    const book = await EpubAdapter.parse(
+      await buildEpub({ 'ch.xhtml': chapter }, ['ch.xhtml'], '<ol><li><a href="ch.xhtml">Chapter</a></li></ol>'),
+      'refs.epub'
+    );
+
+    const [layer] = await EpubAdapter.loadChapter(book, 0);
+    expect(layer.paragraphs).toEqual(['See section 2 and iii.', 'Section body.', 'Heading', 'Typed ref4.']);
+    expect(layer.runs?.[0]?.some(run => run.note)).toBe(false);
+    expect(layer.runs?.[3]?.find(run => run.note)?.note?.paragraphs).toEqual(['Typed ref4.']);
+  });
+
+  it('should keep lists, tables, quotes and preformatted text as typed blocks', async () => {
+    const chapter = [
+      '<h2>Title</h2>',
+      '<ol start="3"><li>Three<ul><li>Nested</li></ul></li><li id="four">Four</li></ol>',
+      '<table><caption>Scores</caption><tr><th>Name</th><th>Score</th></tr><tr><td>A</td><td>1</td></tr></table>',
+      '<blockquote><p>Quoted</p></blockquote>',
+      '<pre>line 1\n  line 2</pre>',
+      '<p>Roses are red,<br/>\n violets are blue</p>'
+    ].join('');
+    const book = await EpubAdapter.parse(
+      await buildEpub({ 'ch.xhtml': chapter }, ['ch.xhtml'], '<ol><li><a href="ch.xhtml">Chapter</a></li></ol>'),
+      'blocks.epub'
+    );
+
+    const [layer] = await EpubAdapter.loadChapter(book, 0);
+    expect(layer.paragraphs).toEqual([
+      'Title',
+      'Three',
+      'Nested',
+      'Four',
+      'Scores',
+      'Name\tScore\nA\t1',
+      'Quoted',
+      'line 1\n  line 2',
+      'Roses are red,\nviolets are blue'
+    ]);
+    expect(layer.blocks).toEqual([
+      { type: 'heading', level: 2 },
+      { type: 'list-item', depth: 0, marker: '3.' },
+      { type: 'list-item', depth: 1, marker: '◦' },
+      { type: 'list-item', depth: 0, marker: '4.' },
+      null,
+      { type: 'table', rows: [['Name', 'Score'], ['A', '1']], header: true },
+      { type: 'quote' },
+      { type: 'pre' },
+      null
+    ]);
+    expect(layer.anchors).toEqual({ four: 3 });
+  });
+
+  it('should emit images nested in list items, table cells and inline quotes', async () => {
+    const chapter = [
+      '<ul><li>Item<img src="img/a.png"/><ul><li>Nested</li></ul></li><li id="after">After</li></ul>',
+      '<table><tr><td>Cell</td><td><img src="img/a.png"/></td></tr></table>',
+      '<blockquote>Quote <img src="img/a.png"/></blockquote>',
+      '<p>End</p>'
+    ].join('');
+    const zip = await JSZip.loadAsync(
+      await buildEpub({ 'ch.xhtml': chapter }, ['ch.xhtml'], '<ol><li><a href="ch.xhtml">Chapter</a></li></ol>')
+    );
+    zip.file('OEBPS/img/a.png', new Uint8Array([0x89, 0x50, 0x4e, 0x47]));
+    const book = await EpubAdapter.parse(await zip.generateAsync({ type: 'arraybuffer' }), 'images.epub');
+
+    const layers = await EpubAdapter.loadChapter(book, 0);
+    expect(layers.map(l => [l.startIndex, l.paragraphs, !!l.image])).toEqual([
+      [0, ['Item'], true],
+      [2, ['Nested', 'After', 'Cell\t'], true],
+      [6, ['Quote'], true],
+      [8, ['End'], false]
+    ]);
+    expect(layers[1].blocks?.[0]).toEqual({ type: 'list-item', depth: 1, marker: '◦' });
+    expect(layers[1].anchors).toEqual({ after: 3 });
+  });
+
+  it('should extract Dublin Core and calibre series metadata', async () => {
+    const metadata = [
+      '<dc:title>The Book</dc:title>',
+      '<dc:creator id="a1">Jane Doe</dc:creator><meta refines="#a1" property="role">aut</meta>',
+      '<dc:creator opf:role="trl">Translator</dc:creator>',
+      '<dc:creator>John Roe</dc:creator>',
+      '<dc:description>&lt;p&gt;A &lt;b&gt;great&lt;/b&gt; book.&lt;/p&gt;</dc:description>',
+      '<dc:publisher>Pub House</dc:publisher>',
+      '<dc:language>en</dc:language>',
+      '<dc:date opf:event="modification">2020-01-01</dc:date>',
+      '<dc:date>2015-03-14T00:00:00+00:00</dc:date>',
+      '<dc:identifier id="id">urn:uuid:1234</dc:identifier>',
+      '<dc:identifier opf:scheme="ISBN">978-7-02-000220-7</dc:identifier>',
+      '<dc:subject>Fiction</dc:subject><dc:subject>History</dc:subject><dc:subject>Fiction</dc:subject>',
+      '<meta name="calibre:series" content="Saga"/><meta name="calibre:series_index" content="2.5"/>'
+    ].join('');
+    const data = await buildEpub(
+      { 'ch.xhtml': '<p>Text</p>' },
+      ['ch.xhtml'],
+      '<ol><li><a href="ch.xhtml">Chapter</a></li></ol>',
+      metadata
+    );
+
+    const expected = {
+      description: 'A great book.',
+      publisher: 'Pub House',
+      language: 'en',
+      publishDate: '2015-03-14',
+      identifier: '978-7-02-000220-7',
+      subjects: ['Fiction', 'History'],
+      series: 'Saga',
+      seriesIndex: 2.5
+    };
+
+    const book = await EpubAdapter.parse(data, 'meta.epub');
+    expect(book).toMatchObject({ title: 'The Book', author: 'Jane Doe & John Roe', ...expected });
+    expect(await EpubAdapter.readMetadata(data)).toEqual({ title: 'The Book', author: 'Jane Doe & John Roe', ...expected });
+
+    // Worker 中没有 DOMParser
+    vi.stubGlobal('DOMParser', undefined);
+    expect(await EpubAdapter.readMetadata(data)).toEqual({ title: 'The Book', author: 'Jane Doe & John Roe', ...expected });
+  });
+
+  it('should read the nav document and EPUB 2 NCX without DOMParser', async () => {
+    const withDom = await EpubAdapter.parse(await build(), 'nested.epub');
+    const toc = (book: typeof withDom) => book.chapters.map(c => [c.title, c.href, c.anchor, c.level, c.parentId]);
+
+    vi.stubGlobal('DOMParser', undefined);
+    expect(toc(await EpubAdapter.parse(await build(), 'nested.epub'))).toEqual(toc(withDom));
+
+    // EPUB 2：没有导航文档，目录在 NCX 中（相对于 NCX 所在目录）
+    const zip = await JSZip.loadAsync(await build());
+    const opf = (await zip.file('OEBPS/content.opf')!.async('string'))
+      .replace(/<item id="nav"[^>]*\/>/, '<item id="ncx" href="toc/toc.ncx" media-type="application/x-dtbncx+xml"/>')
+      .replace('<spine>', '<spine toc="ncx">');
+    zip.file('OEBPS/content.opf', opf);
+    zip.file('OEBPS/toc/toc.ncx', `<?xml version="1.0"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1"><navMap>
+  <navPoint id="p1"><navLabel><text>Part One</text></navLabel><content src="../text/part1.xhtml"/>
+    <navPoint id="p2"><navLabel><text>Chapter 1</text></navLabel><content src="../text/part1.xhtml#c1"/></navPoint>
+  </navPoint>
+  <navPoint id="p3"><navLabel><text>Chapter 3</text></navLabel><content src="../text/c3.xhtml"/></navPoint>
+</navMap></ncx>`);
+
+    const book = await EpubAdapter.parse(await zip.generateAsync({ type: 'arraybuffer' }), 'ncx.epub');
+    expect(toc(book)).toEqual([
+      ['Part One', 'text/part1.xhtml', undefined, 0, undefined],
+      ['Chapter 1', 'text/part1.xhtml', 'c1', 1, 0],
+      ['Chapter 3', 'text/c3.xhtml', undefined, 0, undefined]
+    ]);
+  });
+
+  it('should read EPUB 3 collections as series', async () => {
+    const data = await buildEpub(
+      { 'ch.xhtml': '<p>Text</p>' },
+      ['ch.xhtml'],
+      '<ol><li><a href="ch.xhtml">Chapter</a></li></ol>',
+      '<dc:title>T</dc:title><dc:identifier id="id">x</dc:identifier>'
+        + '<meta property="belongs-to-collection" id="c1">Trilogy</meta>'
+        + '<meta refines="#c1" property="group-position">3</meta>'
+    );
+
+    expect(await EpubAdapter.readMetadata(data)).toMatchObject({ identifier: 'x', series: 'Trilogy', seriesIndex: 3 });
+  });
+});
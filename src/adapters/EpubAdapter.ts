@@ -3,44 +3,176 @@
  * 将 EPUB 文件转换为统一的 UnifiedBook 结构
  * 使用 ContentLayer 架构：图文分层存储
  * 核心：不使用 Epub.js 渲染器，仅用其解析能力
+ *
+ * 导入（parse）直接用 JSZip 读取 OPF 和目录，不依赖 DOM，可以在 Worker 中运行；
+ * 章节转换（loadChapter）需要遍历 XHTML DOM 并创建 Blob URL，在主线程通过 Epub.js 加载
  */
 
 import ePub from 'epubjs';
 import type { Book } from 'epubjs';
-import type { UnifiedBook, UnifiedChapter, ContentLayer } from '@/types/book';
+import JSZip from 'jszip';
+import { DOMParser as XmlDomParser } from '@xmldom/xmldom';
+import type {
+  UnifiedBook,
+  BookMetadata,
+  UnifiedChapter,
+  ContentLayer,
+  InlineRun,
+  InlineMark,
+  InlineLink,
+  InlineNote,
+  ParagraphBlock
+} from '@/types/book';
+import { LayerBuilder } from './LayerBuilder';
+import type { ParseOptions } from './FormatAdapter';
+
+/**
+ * 从 OPF 中读取的包信息
+ */
+interface EpubPackage {
+  path: string;                           // OPF 在压缩包中的路径
+  opf: Document;
+  manifest: Map<string, ManifestItem>;    // id → 清单条目
+  spine: string[];                        // 书脊中各文件的 href（与 Epub.js 的 section.href 相同）
+  ncx?: string;                           // spine 的 toc 属性（EPUB 2 NCX 的清单 id）
+}
+
+interface ManifestItem {
+  href: string;                           // 相对于 OPF 目录
+  mediaType: string;
+  properties: string[];
+}
+
+/**
+ * 目录项（EPUB 3 nav 或 EPUB 2 NCX），href 已转换为相对于 OPF 目录
+ */
+interface TocItem {
+  label: string;
+  href: string;
+  subitems: TocItem[];
+}
+
+/**
+ * 待写入 layer 的段落：纯文本 + 可选的行内片段和块类型
+ */
+interface ParagraphDraft {
+  text: string;
+  runs: InlineRun[] | null;
+  block: ParagraphBlock | null;
+}
 
 export class EpubAdapter {
+  /**
+   * FormatAdapter 元信息
+   */
+  static readonly format = 'epub';
+  static readonly label = 'EPUB';
+  static readonly version = 4;
+  static readonly extensions = ['.epub'];
+
   /**
    * Maximum characters per ContentLayer to prevent DOM performance issues
    */
   private static readonly MAX_LAYER_LENGTH = 15000;
 
+  /**
+   * 行内元素 → 格式标记
+   */
+  private static readonly INLINE_MARKS: Record<string, InlineMark> = {
+    em: 'em', i: 'em', cite: 'em', dfn: 'em', var: 'em',
+    strong: 'strong', b: 'strong',
+    sup: 'sup', sub: 'sub',
+    code: 'code', kbd: 'code', samp: 'code', tt: 'code',
+    u: 'underline', ins: 'underline',
+    s: 'strike', strike: 'strike', del: 'strike'
+  };
+
+  /**
+   * Dublin Core 元素命名空间（OPF <metadata> 中的 dc:*）
+   */
+  private static readonly DC_NAMESPACE = 'http://purl.org/dc/elements/1.1/';
+
+  /**
+   * EPUB 3 结构语义（epub:type）命名空间
+   */
+  private static readonly OPS_NAMESPACE = 'http://www.idpf.org/2007/ops';
+
+  /**
+   * EPUB 2 注释标记：1、[12]、(iv)、*、†、注3 等
+   */
+  private static readonly NOTE_MARKER = /^[[(［（]?\s*(\d{1,4}|[*†‡§¶]{1,3}|[a-z]|[ivxlc]{1,6}|注\s*\d{1,4})\s*[\])］）]?$/i;
+
+  /**
+   * 可以作为注释正文的小型块级元素（未标记语义的注释只认这些元素，标题和章节容器不会被当作注释）
+   */
+  private static readonly NOTE_BLOCKS = /^(p|li|dd|aside)$/;
+
+  /**
+   * 块级元素（引用块内含有这些元素时按容器递归，否则整体作为一个引用段落）
+   */
+  private static readonly BLOCK_TAGS = /^(p|h[1-6]|div|section|article|aside|ul|ol|li|table|pre|blockquote|figure|img|dl|hr)$/;
+
+  /**
+   * 允许作为外部链接打开的协议，其余协议的链接按普通文本显示
+   */
+  private static readonly EXTERNAL_SCHEMES = ['http', 'https', 'mailto'];
+
+  /**
+   * 无序列表各层级的项目符号
+   */
+  private static readonly BULLETS = ['•', '◦', '▪'];
+
+  /**
+   * 魔数检测
+   * EPUB 是 ZIP 包（PK\x03\x04），且第一个条目必须是未压缩的 mimetype 文件，
+   * 因此偏移 30 处紧跟 "mimetypeapplication/epub+zip"
+   */
+  static sniff(header: Uint8Array): boolean {
+    if (header.length < 58) return false;
+    if (header[0] !== 0x50 || header[1] !== 0x4b || header[2] !== 0x03 || header[3] !== 0x04) {
+      return false;
+    }
+    const marker = String.fromCharCode(...header.subarray(30, 58));
+    return marker === 'mimetypeapplication/epub+zip';
+  }
+
   /**
    * 解析 EPUB 文件为 UnifiedBook
    */
   static async parse(
     arrayBuffer: ArrayBuffer,
-    filename: string
+    filename: string,
+    options?: ParseOptions
   ): Promise<UnifiedBook> {
     console.log('[EpubAdapter] 开始解析 EPUB 文件:', filename);
 
-    // 1. 使用 Epub.js 打开书籍
-    const epubBook: Book = ePub(arrayBuffer);
-    await epubBook.ready;
+    const progress = options?.onProgress;
+    const signal = options?.signal;
+
+    // 1. 解压并读取 OPF（Epub.js 依赖 window 和 DOM，不能在 Worker 中使用）
+    const zip = await JSZip.loadAsync(arrayBuffer);
+    signal?.throwIfAborted();
+    progress?.(0.3);
+    const pkg = await this.readPackage(zip);
+    signal?.throwIfAborted();
+    progress?.(0.4);
 
     // 2. 提取元数据
-    const metadata = await epubBook.loaded.metadata;
-    const title = metadata.title || filename.replace(/\.epub$/i, '');
-    const author = metadata.creator || 'Unknown';
+    const { title: opfTitle, author: opfAuthor, ...metadata } = this.extractMetadata(pkg.opf);
+    const title = opfTitle || filename.replace(/\.epub$/i, '');
+    const author = opfAuthor || 'Unknown';
 
-    console.log('[EpubAdapter] 书籍信息:', { title, author });
+    console.log('[EpubAdapter] 书籍信息:', { title, author, ...metadata });
 
     // 3. 提取封面
-    const cover = await this.extractCover(epubBook);
+    const cover = await this.extractCover(zip, pkg);
+    signal?.throwIfAborted();
+    progress?.(0.6);
 
     // 4. 提取目录结构（懒加载，不解析内容）
-    const chapters = await this.extractChapters(epubBook);
+    const chapters = await this.extractChapters(zip, pkg);
     console.log('[EpubAdapter] 检测到章节数:', chapters.length);
+    progress?.(0.9);
 
     // 5. 构建 UnifiedBook
     const book: UnifiedBook = {
@@ -48,6 +180,7 @@ export class EpubAdapter {
       author,
       cover,
       format: 'epub',
+      ...metadata,
       chapters,
       rawData: arrayBuffer,
       addTime: Date.now()
@@ -57,17 +190,167 @@ export class EpubAdapter {
   }
 
   /**
-   * 提取封面
+   * 只读取元数据，不打开整本书（用于旧数据迁移）
    */
-  private static async extractCover(epubBook: Book): Promise<Blob | null> {
+  static async readMetadata(arrayBuffer: ArrayBuffer): Promise<BookMetadata & { title?: string; author?: string }> {
+    const pkg = await this.readPackage(await JSZip.loadAsync(arrayBuffer));
+    return this.extractMetadata(pkg.opf);
+  }
+
+  /**
+   * 读取 container.xml 指向的 OPF，解析清单和书脊
+   */
+  private static async readPackage(zip: JSZip): Promise<EpubPackage> {
+    const container = await zip.file('META-INF/container.xml')?.async('string');
+    if (!container) {
+      throw new Error('缺少 META-INF/container.xml');
+    }
+
+    const packagePath = this.parseXml(container).getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+    const path = packagePath ? this.decodePath(packagePath) : '';
+    const text = path ? await zip.file(path)?.async('string') : undefined;
+    if (!text) {
+      throw new Error('找不到 OPF 文件');
+    }
+
+    const opf = this.parseXml(text);
+    const manifest = new Map<string, ManifestItem>();
+    for (const item of Array.from(opf.getElementsByTagName('item'))) {
+      const id = item.getAttribute('id');
+      const href = item.getAttribute('href');
+      if (!id || !href) continue;
+      manifest.set(id, {
+        href,
+        mediaType: item.getAttribute('media-type') || '',
+        properties: (item.getAttribute('properties') || '').split(/\s+/).filter(Boolean)
+      });
+    }
+
+    const spine = Array.from(opf.getElementsByTagName('itemref'))
+      .map(ref => manifest.get(ref.getAttribute('idref') || '')?.href)
+      .filter((href): href is string => !!href);
+
+    return {
+      path,
+      opf,
+      manifest,
+      spine,
+      ncx: opf.getElementsByTagName('spine')[0]?.getAttribute('toc') || undefined
+    };
+  }
+
+  /**
+   * 读取包内的 XML 文件（href 相对于 OPF 目录），文件不存在时返回 null
+   */
+  private static async readXml(zip: JSZip, pkg: EpubPackage, href: string): Promise<Document | null> {
+    const text = await zip.file(this.resolvePath(pkg.path, this.decodePath(href)))?.async('string');
+    return text ? this.parseXml(text) : null;
+  }
+
+  /**
+   * 解析 XML：主线程使用浏览器的 DOMParser，Worker 中没有 DOMParser，使用 xmldom
+   * 解析结果只使用 getElementsByTagName、getAttribute、childNodes 等两者都支持的接口
+   */
+  private static parseXml(text: string): Document {
+    const parser = typeof DOMParser === 'undefined' ? new XmlDomParser() : new DOMParser();
+    return parser.parseFromString(text.replace(/^\uFEFF/, ''), 'application/xml');
+  }
+
+  /**
+   * 从 OPF 提取元数据
+   * - Dublin Core：title、creator、description、publisher、language、date、identifier、subject
+   * - 系列：calibre:series / calibre:series_index，或 EPUB 3 belongs-to-collection + group-position
+   */
+  static extractMetadata(opf: Document): BookMetadata & { title?: string; author?: string } {
+    const all = Array.from(opf.getElementsByTagName('*'));
+    const elements = (name: string) => all.filter(e => e.namespaceURI === this.DC_NAMESPACE && e.localName === name);
+    const text = (element?: Element) => element?.textContent?.replace(/\s+/g, ' ').trim() || undefined;
+    const metas = Array.from(opf.getElementsByTagName('meta'));
+    const refinement = (id: string | null, property: string) =>
+      id ? text(metas.find(m => m.getAttribute('refines') === `#${id}` && m.getAttribute('property') === property)) : undefined;
+
+    // 作者：只取 aut 角色（未标注角色的视为作者），译者、插画等忽略
+    const creators = elements('creator');
+    const authors = creators.filter(c => {
+      const role = c.getAttribute('opf:role') || refinement(c.getAttribute('id'), 'role');
+      return !role || role === 'aut';
+    });
+    const author = (authors.length > 0 ? authors : creators).map(c => text(c)).filter(Boolean).join(' & ') || undefined;
+
+    // 简介常带 HTML 标签（calibre 导出），转为纯文本
+    const rawDescription = text(elements('description')[0]);
+    const description = rawDescription ? this.htmlText(rawDescription) : undefined;
+
+    // 出版日期：跳过 EPUB 2 中标记为修改、创建日期的条目
+    const date = elements('date').find(d => !/modification|creation/i.test(d.getAttribute('opf:event') || ''));
+    const publishDate = text(date)?.match(/^\d{4}(-\d{2}){0,2}/)?.[0];
+
+    // 标识：优先 ISBN，其次 unique-identifier 指向的标识
+    const identifiers = elements('identifier');
+    const isbn = identifiers
+      .map(i => ({ scheme: i.getAttribute('opf:scheme') || '', value: text(i) || '' }))
+      .map(({ scheme, value }) => /isbn/i.test(scheme) || /^urn:isbn:/i.test(value)
+        ? value.replace(/^urn:isbn:/i, '')
+        : /^(97[89])?[\d-]{9,}[\dX]$/i.test(value) && value.replace(/-/g, '').length >= 10 ? value : '')
+      .find(Boolean);
+    const uniqueId = opf.documentElement.getAttribute('unique-identifier');
+    const identifier = isbn || text(identifiers.find(i => i.getAttribute('id') === uniqueId) || identifiers[0]);
+
+    const subjects = Array.from(new Set(elements('subject').map(s => text(s)).filter((s): s is string => !!s)));
+
+    // 系列：calibre 扩展优先，其次 EPUB 3 集合
+    const calibre = (name: string) => metas.find(m => m.getAttribute('name') === name)?.getAttribute('content')?.trim() || undefined;
+    const collection = metas.find(m => m.getAttribute('property') === 'belongs-to-collection');
+    const series = calibre('calibre:series') || text(collection);
+    const position = calibre('calibre:series_index') || refinement(collection?.getAttribute('id') || null, 'group-position');
+    const seriesIndex = series && position && !Number.isNaN(parseFloat(position)) ? parseFloat(position) : undefined;
+
+    return {
+      title: text(elements('title')[0]),
+      author,
+      description,
+      publisher: text(elements('publisher')[0]),
+      language: text(elements('language')[0]),
+      publishDate,
+      identifier,
+      subjects: subjects.length > 0 ? subjects : undefined,
+      series,
+      seriesIndex
+    };
+  }
+
+  /**
+   * HTML 片段转为纯文本；Worker 中没有 DOMParser，去掉标签并解码实体
+   */
+  private static htmlText(html: string): string | undefined {
+    if (typeof DOMParser !== 'undefined') {
+      return new DOMParser().parseFromString(html, 'text/html').body.textContent?.trim() || undefined;
+    }
+
+    const entities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0' };
+    return html
+      .replace(/<[^>]*>/g, '')
+      .replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+        if (name[0] !== '#') return entities[name.toLowerCase()] ?? entity;
+        const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+        return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+      })
+      .trim() || undefined;
+  }
+
+  /**
+   * 提取封面：EPUB 3 的 cover-image 条目，或 EPUB 2 <meta name="cover"> 指向的条目
+   */
+  private static async extractCover(zip: JSZip, pkg: EpubPackage): Promise<Blob | null> {
     try {
-      const coverUrl = await epubBook.coverUrl();
-      if (!coverUrl) return null;
+      const coverId = Array.from(pkg.opf.getElementsByTagName('meta'))
+        .find(meta => meta.getAttribute('name') === 'cover')?.getAttribute('content');
+      const item = Array.from(pkg.manifest.values()).find(i => i.properties.includes('cover-image'))
+        || (coverId ? pkg.manifest.get(coverId) : undefined);
+      const file = item ? zip.file(this.resolvePath(pkg.path, this.decodePath(item.href))) : null;
+      if (!item || !file) return null;
 
-      // 从 Blob URL 获取 Blob
-      const response = await fetch(coverUrl);
-      const blob = await response.blob();
-      
+      const blob = new Blob([await file.async('arraybuffer')], { type: item.mediaType });
       console.log('[EpubAdapter] 封面提取成功');
       return blob;
     } catch (error) {
@@ -78,45 +361,47 @@ export class EpubAdapter {
 
   /**
    * 提取章节结构（仅目录，不解析内容）
+   * 递归展开嵌套目录（部 → 章 → 节），按阅读顺序扁平化，层级和父章节记录在 level / parentId
    */
-  private static async extractChapters(epubBook: Book): Promise<UnifiedChapter[]> {
-    const navigation = await epubBook.loaded.navigation;
-    const toc = navigation.toc;
-
+  private static async extractChapters(zip: JSZip, pkg: EpubPackage): Promise<UnifiedChapter[]> {
+    const toc = await this.readToc(zip, pkg);
+    const spineByHref = new Map(pkg.spine.map(href => [this.decodePath(href), href]));
     const chapters: UnifiedChapter[] = [];
-    let validChapterIndex = 0;
 
-    // 遍历目录，验证每个章节是否真实存在
-    for (let i = 0; i < toc.length; i++) {
-      const item = toc[i];
-      const href = item.href;
-      
-      // 验证章节是否存在于 spine 中
-      const section = epubBook.spine.get(href);
-      
-      if (section) {
-        // 章节存在，添加到列表
+    const visit = (items: TocItem[], level: number, parentId?: number) => {
+      for (const item of items) {
+        // 验证章节是否存在于 spine 中；没有链接的分组标题（如"第一部"）指向第一个有效子章节
+        const target = this.resolveTarget(spineByHref, item);
+
+        if (!target) {
+          // 章节不存在，跳过并记录警告
+          console.warn('[EpubAdapter] 跳过无效章节:', {
+            title: item.label,
+            href: item.href
+          });
+          continue;
+        }
+
+        const id = chapters.length;
         chapters.push({
-          id: validChapterIndex++,
-          title: item.label,
-          href: href,  // 保存 href 用于后续加载
+          id,
+          title: item.label.trim(),
+          href: target.href,  // 保存 href 用于后续加载
+          anchor: target.anchor,
+          level,
+          parentId,
           layers: [],
           isLoaded: false
         });
-      } else {
-        // 章节不存在，跳过并记录警告
-        console.warn('[EpubAdapter] 跳过无效章节:', {
-          title: item.label,
-          href: href
-        });
+
+        visit(item.subitems, level + 1, id);
       }
-    }
+    };
+    visit(toc, 0);
 
     // 如果没有目录，使用 spine（书脊）
     if (chapters.length === 0) {
-      const spine = epubBook.spine;
-      const spineItems = (spine as any).items || [];
-      for (let i = 0; i < spineItems.length; i++) {
+      for (let i = 0; i < pkg.spine.length; i++) {
         chapters.push({
           id: i,
           title: `Chapter ${i + 1}`,
@@ -130,6 +415,130 @@ export class EpubAdapter {
     return chapters;
   }
 
+  /**
+   * 读取目录：优先 EPUB 3 导航文档，其次 EPUB 2 NCX
+   */
+  private static async readToc(zip: JSZip, pkg: EpubPackage): Promise<TocItem[]> {
+    const items = Array.from(pkg.manifest.values());
+
+    const nav = items.find(item => item.properties.includes('nav'));
+    const navDocument = nav ? await this.readXml(zip, pkg, nav.href) : null;
+    const navElement = navDocument
+      ? Array.from(navDocument.getElementsByTagName('nav')).find(element => this.epubTypes(element).includes('toc'))
+      : undefined;
+    const list = navElement ? this.childElements(navElement, 'ol')[0] : undefined;
+    if (nav && list) {
+      const toc = this.navList(list, nav.href);
+      if (toc.length > 0) return toc;
+    }
+
+    const ncx = (pkg.ncx ? pkg.manifest.get(pkg.ncx) : undefined)
+      || items.find(item => item.mediaType === 'application/x-dtbncx+xml');
+    const ncxDocument = ncx ? await this.readXml(zip, pkg, ncx.href) : null;
+    const navMap = ncxDocument?.getElementsByTagName('navMap')[0];
+    return ncx && navMap ? this.ncxList(navMap, ncx.href) : [];
+  }
+
+  /**
+   * EPUB 3 导航列表：<li> 中的 <a>（无链接的分组标题为 <span>）和嵌套的 <ol>
+   */
+  private static navList(list: Element, base: string): TocItem[] {
+    const items: TocItem[] = [];
+    for (const li of this.childElements(list, 'li')) {
+      const content = this.childElements(li, 'a')[0] || this.childElements(li, 'span')[0];
+      if (!content) continue;
+
+      const nested = this.childElements(li, 'ol')[0];
+      items.push({
+        label: content.textContent || '',
+        href: this.tocHref(base, content.getAttribute('href')),
+        subitems: nested ? this.navList(nested, base) : []
+      });
+    }
+    return items;
+  }
+
+  /**
+   * EPUB 2 NCX：嵌套的 <navPoint>
+   */
+  private static ncxList(parent: Element, base: string): TocItem[] {
+    return this.childElements(parent, 'navPoint').map(point => ({
+      label: this.childElements(point, 'navLabel')[0]?.textContent || '',
+      href: this.tocHref(base, this.childElements(point, 'content')[0]?.getAttribute('src')),
+      subitems: this.ncxList(point, base)
+    }));
+  }
+
+  /**
+   * 直接子元素（按本地名匹配，xmldom 的节点没有 children）
+   */
+  private static childElements(element: Element, localName: string): Element[] {
+    return Array.from(element.childNodes).filter((node): node is Element =>
+      node.nodeType === 1 && (node as Element).localName === localName);
+  }
+
+  /**
+   * 目录链接相对于目录文件，转换为相对于 OPF 目录（与书脊 href 相同）
+   */
+  private static tocHref(base: string, href: string | null | undefined): string {
+    if (!href) return '';
+    const [path, fragment] = href.split('#');
+    const resolved = path ? this.resolvePath(base, path) : base;
+    return fragment ? `${resolved}#${fragment}` : resolved;
+  }
+
+  /**
+   * 解析目录项指向的文件和锚点
+   * 目录项本身无效时使用第一个有效子项，全部无效时返回 null
+   */
+  private static resolveTarget(spineByHref: Map<string, string>, item: TocItem): { href: string; anchor?: string } | null {
+    const [href, fragment] = item.href.split('#');
+    const spineHref = href ? spineByHref.get(this.decodePath(href)) : undefined;
+
+    // 统一使用 spine 中的 href，便于与书内链接比较
+    if (spineHref) {
+      return { href: spineHref, anchor: this.decodeFragment(fragment) };
+    }
+
+    for (const child of item.subitems) {
+      const target = this.resolveTarget(spineByHref, child);
+      if (target) return target;
+    }
+    return null;
+  }
+
+  /**
+   * 解码路径中的 %XX（压缩包内的文件名未编码）
+   */
+  private static decodePath(path: string): string {
+    try {
+      return decodeURIComponent(path);
+    } catch {
+      return path;
+    }
+  }
+
+  /**
+   * 解码 URL 片段（锚点 id）
+   */
+  private static decodeFragment(fragment?: string): string | undefined {
+    if (!fragment) return undefined;
+    try {
+      return decodeURIComponent(fragment);
+    } catch {
+      return fragment;
+    }
+  }
+
+  /**
+   * 按 id（或旧式 <a name>）查找锚点元素
+   */
+  private static findAnchor(document: Document, anchor: string): Element | null {
+    const escaped = anchor.replace(/["\\]/g, '\\$&');
+    return document.getElementById(anchor)
+      || document.querySelector(`[id="${escaped}"], a[name="${escaped}"]`);
+  }
+
   /**
    * 懒加载：解析指定章节的内容
    * 将 XHTML 转换为 ContentLayer 数组
@@ -137,7 +546,8 @@ export class EpubAdapter {
    */
   static async loadChapter(
     book: UnifiedBook,
-    chapterId: number
+    chapterId: number,
+    signal?: AbortSignal
   ): Promise<ContentLayer[]> {
     console.log('[EpubAdapter] 懒加载章节:', chapterId);
 
@@ -155,6 +565,7 @@ export class EpubAdapter {
     // 重新打开 EPUB
     const epubBook: Book = ePub(book.rawData);
     await epubBook.ready;
+    signal?.throwIfAborted();
 
     let section: any = null;
     
@@ -180,6 +591,7 @@ export class EpubAdapter {
 
       // 加载章节的 XHTML 内容
       await section.load(epubBook.load.bind(epubBook));
+      signal?.throwIfAborted();
       
       const document = section.document;
       if (!document) {
@@ -190,13 +602,39 @@ export class EpubAdapter {
         }];
       }
 
+      // 识别注释引用并加载注释正文（同一文件中的注释正文会被标记，正文流中跳过）
+      const notes = await this.collectNotes(document, epubBook, section);
+
+      // 同一文件包含多个章节时，只取本章锚点到下一章锚点之间的内容
+      const next = book.chapters[chapterId + 1];
+      const sharesFile = !!chapter.href && next?.href === chapter.href;
+      let root: Element | null = document.body;
+
+      if (chapter.anchor || sharesFile) {
+        if (sharesFile && !next.anchor) {
+          // 下一章从文件开头开始（如"部"标题与第一章同一文件），本章没有独立内容
+          return [];
+        }
+
+        const start = chapter.anchor ? this.findAnchor(document, chapter.anchor) : null;
+        const end = sharesFile && next.anchor ? this.findAnchor(document, next.anchor) : null;
+        if (chapter.anchor && !start) {
+          console.warn('[EpubAdapter] 找不到章节锚点，从文件开头加载:', chapter.anchor);
+        }
+        root = LayerBuilder.extractRange(document, start, end);
+      }
+
       // 解析 HTML 为 ContentLayer，传入 section 用于路径解析
-      const layers = await this.parseHTML(document, epubBook, section);
+      const layers = await this.parseHTML(root, epubBook, section, notes);
+      LayerBuilder.discardIfAborted(layers, signal);
 
       console.log('[EpubAdapter] 章节解析完成，layers 数:', layers.length);
       return layers;
       
     } catch (error) {
+      // 取消不是加载失败，不生成错误提示
+      signal?.throwIfAborted();
+
       console.error('[EpubAdapter] 章节加载失败:', {
         chapterId,
         title: chapter.title,
@@ -219,31 +657,74 @@ export class EpubAdapter {
    * 核心算法：遇到图片时截断，生成新的 layer
    */
   private static async parseHTML(
-    document: Document,
+    body: Element | null,
     epubBook: Book,
-    section: any
+    section: any,
+    notes: InlineNote[]
   ): Promise<ContentLayer[]> {
     const layers: ContentLayer[] = [];
-    const body = document.body;
 
     if (!body) return layers;
 
     // 当前累积的段落数组
-    let currentParagraphs: string[] = [];
+    const currentParagraphs: ParagraphDraft[] = [];
+    // 锚点 id → 全局索引
+    const anchors = new Map<string, number>();
     // 章节级段落计数器
     let globalIndex = 0;
 
     // 递归遍历 DOM 树
-    globalIndex = await this.traverseDOM(body, layers, currentParagraphs, epubBook, section, globalIndex);
+    globalIndex = await this.traverseDOM(body, layers, currentParagraphs, anchors, notes, epubBook, section, globalIndex);
 
     // 处理最后剩余的段落
     if (currentParagraphs.length > 0) {
       this.addParagraphsWithChunking(layers, currentParagraphs, globalIndex);
     }
 
+    this.assignAnchors(layers, anchors);
     return layers;
   }
 
+  /**
+   * 将锚点写入其索引所在的 layer（章节末尾的锚点归入最后一个 layer）
+   */
+  private static assignAnchors(layers: ContentLayer[], anchors: Map<string, number>): void {
+    if (layers.length === 0) return;
+
+    for (const [id, index] of anchors) {
+      const layer = layers.find(l => index < l.startIndex + l.paragraphs.length + (l.image ? 1 : 0))
+        || layers[layers.length - 1];
+      if (!layer.anchors) layer.anchors = {};
+      layer.anchors[id] = index;
+    }
+  }
+
+  /**
+   * 由段落生成 layer，包含富文本段落时附带 runs
+   */
+  private static createLayer(
+    paragraphs: ParagraphDraft[],
+    startIndex: number,
+    image?: string,
+    imageSize?: number
+  ): ContentLayer {
+    const layer: ContentLayer = {
+      paragraphs: paragraphs.map(p => p.text),
+      startIndex,
+      image
+    };
+    if (image && imageSize !== undefined) {
+      layer.imageSize = imageSize;
+    }
+    if (paragraphs.some(p => p.runs)) {
+      layer.runs = paragraphs.map(p => p.runs);
+    }
+    if (paragraphs.some(p => p.block)) {
+      layer.blocks = paragraphs.map(p => p.block);
+    }
+    return layer;
+  }
+
   /**
    * Add paragraphs to layers with automatic chunking
    * Splits large paragraph arrays into multiple layers to prevent DOM performance issues
@@ -255,38 +736,31 @@ export class EpubAdapter {
    */
   private static addParagraphsWithChunking(
     layers: ContentLayer[],
-    paragraphs: string[],
+    paragraphs: ParagraphDraft[],
     startIndex: number,
-    image?: string
+    image?: string,
+    imageSize?: number
   ): number {
     // Calculate total character count
-    const totalChars = paragraphs.reduce((sum, p) => sum + p.length, 0);
+    const totalChars = paragraphs.reduce((sum, p) => sum + p.text.length, 0);
     
     if (totalChars <= this.MAX_LAYER_LENGTH) {
       // Within limit, add as single layer
-      layers.push({ 
-        paragraphs: [...paragraphs], 
-        startIndex,
-        image 
-      });
+      layers.push(this.createLayer(paragraphs, startIndex, image, imageSize));
       // 返回下一个索引：段落数 + 图片（如果有）
       return startIndex + paragraphs.length + (image ? 1 : 0);
     }
 
     // Need to chunk - split paragraphs into multiple layers
-    let currentChunk: string[] = [];
+    let currentChunk: ParagraphDraft[] = [];
     let currentChunkSize = 0;
     let currentStartIndex = startIndex;
     let isFirstChunk = true;
 
     for (const para of paragraphs) {
-      if (currentChunkSize + para.length > this.MAX_LAYER_LENGTH && currentChunk.length > 0) {
+      if (currentChunkSize + para.text.length > this.MAX_LAYER_LENGTH && currentChunk.length > 0) {
         // Current chunk is full, create a layer
-        layers.push({
-          paragraphs: [...currentChunk],
-          startIndex: currentStartIndex,
-          image: isFirstChunk ? image : undefined
-        });
+        layers.push(this.createLayer(currentChunk, currentStartIndex, isFirstChunk ? image : undefined, imageSize));
         
         // 更新索引：段落数 + 图片（如果是第一块且有图片）
         currentStartIndex += currentChunk.length + (isFirstChunk && image ? 1 : 0);
@@ -296,16 +770,12 @@ export class EpubAdapter {
       }
       
       currentChunk.push(para);
-      currentChunkSize += para.length;
+      currentChunkSize += para.text.length;
     }
 
     // Add remaining chunk
     if (currentChunk.length > 0) {
-      layers.push({
-        paragraphs: [...currentChunk],
-        startIndex: currentStartIndex,
-        image: isFirstChunk ? image : undefined
-      });
+      layers.push(this.createLayer(currentChunk, currentStartIndex, isFirstChunk ? image : undefined, imageSize));
       currentStartIndex += currentChunk.length + (isFirstChunk && image ? 1 : 0);
     }
 
@@ -320,127 +790,636 @@ export class EpubAdapter {
    * - 每个段落占用 1 个索引位
    * - 图片占用 1 个独立索引位
    * - globalIndex 记录当前的全局索引位置
+   * - 列表项、表格、预格式文本各占 1 个索引位
+   *
+   * @param quote - 是否位于引用块（<blockquote>）内
    */
   private static async traverseDOM(
     element: Element,
     layers: ContentLayer[],
-    currentParagraphs: string[],
+    currentParagraphs: ParagraphDraft[],
+    anchors: Map<string, number>,
+    notes: InlineNote[],
     epubBook: Book,
     section: any,
-    globalIndex: number
+    globalIndex: number,
+    quote = false
   ): Promise<number> {
     for (const child of Array.from(element.children)) {
       const tagName = child.tagName.toLowerCase();
 
-      // 处理段落 - 作为独立段落存储
-      if (tagName === 'p') {
-        const text = child.textContent?.trim();
-        if (text) {
-          currentParagraphs.push(text);
+      // 注释正文已随引用段落存储，不再作为独立段落
+      if (child.hasAttribute('data-note-body')) continue;
+
+      // 记录锚点：指向该元素开始的第一个段落
+      this.recordAnchor(child, anchors, globalIndex + currentParagraphs.length);
+
+      // 处理段落和标题 - 作为独立段落存储，保留行内格式
+      if (tagName === 'p' || /^h[1-6]$/.test(tagName)) {
+        const paragraph = this.collectParagraph(
+          child,
+          epubBook,
+          section,
+          anchors,
+          notes,
+          globalIndex + currentParagraphs.length
+        );
+        if (paragraph) {
+          if (tagName !== 'p') {
+            paragraph.block = { type: 'heading', level: Number(tagName[1]) };
+          } else if (quote) {
+            paragraph.block = { type: 'quote' };
+          }
+          currentParagraphs.push(paragraph);
         }
       }
-      // 处理标题 - 也作为段落处理
-      else if (/^h[1-6]$/.test(tagName)) {
-        const text = child.textContent?.trim();
+      // 列表 - 每个列表项一段，记录嵌套深度和编号
+      else if (tagName === 'ul' || tagName === 'ol') {
+        globalIndex = await this.collectList(child, 0, layers, currentParagraphs, anchors, notes, epubBook, section, globalIndex);
+      }
+      // 表格 - 整个表格占一个索引位，标题（caption）作为普通段落
+      else if (tagName === 'table') {
+        const caption = child.querySelector('caption')?.textContent?.replace(/\s+/g, ' ').trim();
+        if (caption) {
+          currentParagraphs.push({ text: caption, runs: null, block: null });
+        }
+        const table = this.collectTable(child);
+        if (table) {
+          currentParagraphs.push(table);
+        }
+        // 单元格中的图片排在表格之后
+        globalIndex = await this.appendImages(child, layers, currentParagraphs, epubBook, section, globalIndex);
+      }
+      // 预格式文本 - 保留换行和缩进
+      else if (tagName === 'pre') {
+        const text = (child.textContent || '').replace(/^\n+/, '').trimEnd();
         if (text) {
-          currentParagraphs.push(text);
+          currentParagraphs.push({ text, runs: null, block: { type: 'pre' } });
         }
       }
-      // 处理图片 - 截断当前段落，生成新 layer
-      else if (tagName === 'img') {
-        const src = child.getAttribute('src');
-        console.log('[EpubAdapter] 发现图片标签，src:', src);
-        
-        if (src) {
-          let internalPath = '';
-          try {
-            console.log('[EpubAdapter] 开始处理图片:', src);
-            
-            // 手动解析相对路径
-            const basePath = section.canonical || section.href;
-            
-            if (src.startsWith('http://') || src.startsWith('https://')) {
-              throw new Error('External images not supported');
-            } else if (src.startsWith('/')) {
-              internalPath = src;
-            } else {
-              const sectionDir = basePath.substring(0, basePath.lastIndexOf('/'));
-              const parts = sectionDir.split('/').filter(p => p);
-              const srcParts = src.split('/');
-              
-              for (const part of srcParts) {
-                if (part === '..') {
-                  parts.pop();
-                } else if (part !== '.' && part !== '') {
-                  parts.push(part);
-                }
-              }
-              
-              internalPath = '/' + parts.join('/');
-            }
-            
-            console.log('[EpubAdapter] 修正后的内部路径:', internalPath);
-            
-            const imageData = await epubBook.archive.request(internalPath, 'blob');
-            
-            if (!(imageData instanceof Blob)) {
-              throw new Error('Image data is not a Blob');
-            }
-            
-            const imageBlob = imageData as Blob;
-            const blobUrl = URL.createObjectURL(imageBlob);
-            console.log('[EpubAdapter] Blob URL 创建成功:', blobUrl);
-
-            // 截断：将当前累积的段落生成 layer，图片附加到最后一个 layer
-            if (currentParagraphs.length > 0) {
-              globalIndex = this.addParagraphsWithChunking(
-                layers, 
-                currentParagraphs, 
-                globalIndex,
-                blobUrl
-              );
-              currentParagraphs.length = 0;
-              console.log('[EpubAdapter] 图片附加到段落 layer，下一个索引:', globalIndex);
-            } else {
-              // 如果没有段落，创建只有图片的 layer
-              layers.push({
-                paragraphs: [],
-                startIndex: globalIndex,
-                image: blobUrl
-              });
-              globalIndex += 1; // 图片占用 1 个索引位
-              console.log('[EpubAdapter] 创建纯图片 layer，下一个索引:', globalIndex);
-            }
-            
-          } catch (error) {
-            console.error('[EpubAdapter] 图片加载失败:', {
-              src,
-              internalPath,
-              error: error instanceof Error ? error.message : String(error)
-            });
+      // 引用块 - 只含行内内容（和图片）时整体作为一段，否则递归并标记其中的段落
+      else if (tagName === 'blockquote') {
+        const hasBlocks = Array.from(child.children).some(c => {
+          const childTag = c.tagName.toLowerCase();
+          return childTag !== 'img' && this.BLOCK_TAGS.test(childTag);
+        });
+        if (hasBlocks) {
+          globalIndex = await this.traverseDOM(
+            child,
+            layers,
+            currentParagraphs,
+            anchors,
+            notes,
+            epubBook,
+            section,
+            globalIndex,
+            true
+          );
+        } else {
+          const paragraph = this.collectParagraph(
+            child,
+            epubBook,
+            section,
+            anchors,
+            notes,
+            globalIndex + currentParagraphs.length
+          );
+          if (paragraph) {
+            paragraph.block = { type: 'quote' };
+            currentParagraphs.push(paragraph);
           }
+          globalIndex = await this.appendImages(child, layers, currentParagraphs, epubBook, section, globalIndex);
         }
       }
+      // 处理图片 - 截断当前段落，生成新 layer
+      else if (tagName === 'img') {
+        globalIndex = await this.appendImage(child, layers, currentParagraphs, epubBook, section, globalIndex);
+      }
       // 递归处理其他容器元素
       else if (child.children.length > 0) {
         globalIndex = await this.traverseDOM(
           child, 
           layers, 
           currentParagraphs, 
+          anchors,
+          notes,
           epubBook, 
           section, 
-          globalIndex
+          globalIndex,
+          quote
         );
       }
       // 处理纯文本节点
       else {
         const text = child.textContent?.trim();
         if (text) {
-          currentParagraphs.push(text);
+          currentParagraphs.push({ text, runs: null, block: quote ? { type: 'quote' } : null });
         }
       }
     }
     
     return globalIndex;
   }
+
+  /**
+   * 处理图片：截断当前段落，生成新 layer
+   * @returns 下一个可用的全局索引
+   */
+  private static async appendImage(
+    image: Element,
+    layers: ContentLayer[],
+    currentParagraphs: ParagraphDraft[],
+    epubBook: Book,
+    section: any,
+    globalIndex: number
+  ): Promise<number> {
+    const src = image.getAttribute('src');
+    console.log('[EpubAdapter] 发现图片标签，src:', src);
+
+    if (src) {
+      let internalPath = '';
+      try {
+        console.log('[EpubAdapter] 开始处理图片:', src);
+
+        // 手动解析相对路径
+        const basePath = section.canonical || section.href;
+
+        if (src.startsWith('http://') || src.startsWith('https://')) {
+          throw new Error('External images not supported');
+        } else if (src.startsWith('/')) {
+          internalPath = src;
+        } else {
+          const sectionDir = basePath.substring(0, basePath.lastIndexOf('/'));
+          const parts = sectionDir.split('/').filter(p => p);
+          const srcParts = src.split('/');
+
+          for (const part of srcParts) {
+            if (part === '..') {
+              parts.pop();
+            } else if (part !== '.' && part !== '') {
+              parts.push(part);
+            }
+          }
+
+          internalPath = '/' + parts.join('/');
+        }
+
+        console.log('[EpubAdapter] 修正后的内部路径:', internalPath);
+
+        const imageData = await epubBook.archive.request(internalPath, 'blob');
+
+        if (!(imageData instanceof Blob)) {
+          throw new Error('Image data is not a Blob');
+        }
+
+        const imageBlob = imageData as Blob;
+        const blobUrl = URL.createObjectURL(imageBlob);
+        console.log('[EpubAdapter] Blob URL 创建成功:', blobUrl);
+
+        // 截断：将当前累积的段落生成 layer，图片附加到最后一个 layer
+        if (currentParagraphs.length > 0) {
+          globalIndex = this.addParagraphsWithChunking(
+            layers, 
+            currentParagraphs, 
+            globalIndex,
+            blobUrl,
+            imageBlob.size
+          );
+          currentParagraphs.length = 0;
+          console.log('[EpubAdapter] 图片附加到段落 layer，下一个索引:', globalIndex);
+        } else {
+          // 如果没有段落，创建只有图片的 layer
+          layers.push({
+            paragraphs: [],
+            startIndex: globalIndex,
+            image: blobUrl,
+            imageSize: imageBlob.size
+          });
+          globalIndex += 1; // 图片占用 1 个索引位
+          console.log('[EpubAdapter] 创建纯图片 layer，下一个索引:', globalIndex);
+        }
+
+      } catch (error) {
+        console.error('[EpubAdapter] 图片加载失败:', {
+          src,
+          internalPath,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+    return globalIndex;
+  }
+
+  /**
+   * 依次处理元素内的图片（列表项、表格单元格、行内引用块中的图片按文档顺序排在其文字之后）
+   * @returns 下一个可用的全局索引
+   */
+  private static async appendImages(
+    element: Element,
+    layers: ContentLayer[],
+    currentParagraphs: ParagraphDraft[],
+    epubBook: Book,
+    section: any,
+    globalIndex: number
+  ): Promise<number> {
+    for (const image of Array.from(element.querySelectorAll('img'))) {
+      globalIndex = await this.appendImage(image, layers, currentParagraphs, epubBook, section, globalIndex);
+    }
+    return globalIndex;
+  }
+
+  /**
+   * 记录元素的锚点（id，以及旧式 <a name>），同名锚点以第一次出现为准
+   */
+  private static recordAnchor(element: Element, anchors: Map<string, number>, index: number): void {
+    const ids = [element.getAttribute('id')];
+    if (element.localName.toLowerCase() === 'a') {
+      ids.push(element.getAttribute('name'));
+    }
+    for (const id of ids) {
+      if (id && !anchors.has(id)) {
+        anchors.set(id, index);
+      }
+    }
+  }
+
+  /**
+   * 识别文档中的注释引用，加载注释正文
+   * - EPUB 3：epub:type="noteref"（或 role="doc-noteref"）
+   * - EPUB 2：指向书内段落（p、li、dd、aside）、文字为编号或符号的短链接（反向链接除外）
+   * 注释可以在同一文件中，也可以在单独的注释文件中。
+   * 引用元素标记 data-note-ref（注释序号）；同一文件中标记了注释语义或属于小型块级元素的注释正文标记 data-note-body，
+   * 在章节中跳过
+   */
+  private static async collectNotes(document: Document, epubBook: Book, section: any): Promise<InlineNote[]> {
+    const notes: InlineNote[] = [];
+    const noteByTarget = new Map<string, number>();
+    const documents = new Map<string, Document | null>([[section.href, document]]);
+
+    for (const ref of Array.from(document.querySelectorAll('a[href]'))) {
+      const typed = this.isTypedNoteRef(ref);
+      if (!typed && !this.NOTE_MARKER.test(ref.textContent?.trim() || '')) continue;
+
+      const [path, fragment] = (ref.getAttribute('href') || '').split('#');
+      const id = this.decodeFragment(fragment);
+      if (!id || /^[a-z][\w+.-]*:/i.test(path)) continue;
+
+      const href = path ? this.resolvePath(section.href, path) : section.href;
+      const key = `${href}#${id}`;
+      const existing = noteByTarget.get(key);
+      if (existing !== undefined) {
+        ref.setAttribute('data-note-ref', String(existing));
+        continue;
+      }
+
+      if (!documents.has(href)) {
+        documents.set(href, await this.loadNoteDocument(epubBook, href));
+      }
+      const noteDocument = documents.get(href);
+      const target = noteDocument ? this.findAnchor(noteDocument, id) : null;
+      if (!noteDocument || !target) continue;
+
+      // 未标记语义时，指向段落以外的元素（标题、章节容器等，多为交叉引用）或另一个链接（注释里的反向链接）的不算注释引用
+      const body = this.noteBody(target);
+      if (!typed && (!this.NOTE_BLOCKS.test(body.localName.toLowerCase()) || target.closest('a[href]'))) continue;
+
+      const paragraphs = this.noteParagraphs(body);
+      if (paragraphs.length === 0) continue;
+
+      const types = this.epubTypes(body);
+      const kind = types.includes('footnote') || (!types.includes('endnote') && noteDocument === document)
+        ? 'footnote'
+        : 'endnote';
+
+      noteByTarget.set(key, notes.length);
+      ref.setAttribute('data-note-ref', String(notes.length));
+      notes.push({ id, kind, paragraphs });
+
+      if (noteDocument === document && this.isHideableNote(body)) {
+        body.setAttribute('data-note-body', '');
+        // 注释容器（<section epub:type="footnotes"> 等）连同标题一起跳过
+        const container = this.noteContainer(body);
+        container?.setAttribute('data-note-body', '');
+      }
+    }
+
+    return notes;
+  }
+
+  /**
+   * 加载注释所在的文件
+   */
+  private static async loadNoteDocument(epubBook: Book, href: string): Promise<Document | null> {
+    const section: any = epubBook.spine.get(href);
+    if (!section) return null;
+    try {
+      await section.load(epubBook.load.bind(epubBook));
+      return section.document || null;
+    } catch (error) {
+      console.warn('[EpubAdapter] 注释文件加载失败:', href, error);
+      return null;
+    }
+  }
+
+  /**
+   * 读取元素的 epub:type 列表
+   */
+  private static epubTypes(element: Element): string[] {
+    const value = element.getAttribute('epub:type') || element.getAttributeNS(this.OPS_NAMESPACE, 'type') || '';
+    return value.split(/\s+/).filter(Boolean);
+  }
+
+  private static isTypedNoteRef(element: Element): boolean {
+    return this.epubTypes(element).includes('noteref') || element.getAttribute('role') === 'doc-noteref';
+  }
+
+  /**
+   * 注释正文元素：锚点落在行内元素（如 <a name="n1"></a>）时取其所在的块级元素
+   */
+  private static noteBody(target: Element): Element {
+    if (/^(a|span|sup|sub|em|strong|b|i)$/.test(target.localName.toLowerCase())) {
+      return target.closest('p, li, dd, aside') || target;
+    }
+    return target;
+  }
+
+  /**
+   * 注释正文能否从章节中隐藏：标记了注释语义或是小型块级元素，标题和章节容器始终保留
+   */
+  private static isHideableNote(body: Element): boolean {
+    const tagName = body.localName.toLowerCase();
+    if (/^(h[1-6]|section|article|nav|main|header|footer|body)$/.test(tagName)) return false;
+
+    const types = this.epubTypes(body);
+    const role = body.getAttribute('role');
+    return types.some(t => t === 'footnote' || t === 'endnote' || t === 'rearnote' || t === 'note')
+      || role === 'doc-footnote' || role === 'doc-endnote'
+      || this.NOTE_BLOCKS.test(tagName);
+  }
+
+  /**
+   * 注释正文所在的注释容器
+   */
+  private static noteContainer(body: Element): Element | null {
+    let element = body.parentElement;
+    while (element) {
+      const types = this.epubTypes(element);
+      const role = element.getAttribute('role');
+      if (types.some(t => t === 'footnotes' || t === 'endnotes' || t === 'rearnotes')
+        || role === 'doc-endnotes' || role === 'doc-footnotes') {
+        return element;
+      }
+      element = element.parentElement;
+    }
+    return null;
+  }
+
+  /**
+   * 注释正文的段落文本，去掉返回正文的反向链接
+   */
+  private static noteParagraphs(body: Element): string[] {
+    const clone = body.cloneNode(true) as Element;
+    for (const link of Array.from(clone.querySelectorAll('a'))) {
+      const backlink = this.epubTypes(link).includes('backlink')
+        || link.getAttribute('role') === 'doc-backlink'
+        || /^[↩↑⤴^]+$/.test(link.textContent?.trim() || '');
+      if (backlink) link.remove();
+    }
+
+    const blocks = Array.from(clone.querySelectorAll('p'));
+    return (blocks.length > 0 ? blocks : [clone])
+      .map(block => (block.textContent || '').replace(/\s+/g, ' ').trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * 提取段落的纯文本和行内片段（强调、注音、上下标、代码、链接）
+   * 没有任何格式时 runs 为 null，按纯文本段落存储
+   *
+   * @param index - 该段落的全局索引（段内锚点指向该段落）
+   */
+  private static collectParagraph(
+    element: Element,
+    epubBook: Book,
+    section: any,
+    anchors: Map<string, number>,
+    notes: InlineNote[],
+    index: number
+  ): ParagraphDraft | null {
+    const runs: InlineRun[] = [];
+
+    const push = (text: string, marks: InlineMark[], link?: InlineLink, note?: InlineNote, ruby?: string) => {
+      // <br> 保留为换行（诗歌、歌词），其余空白合并
+      const normalized = text === '\n' ? text : text.replace(/\s+/g, ' ');
+      if (!normalized) return;
+
+      // 与上一个格式相同的片段合并
+      const last = runs[runs.length - 1];
+      if (last && !ruby && !last.ruby && last.link === link && last.note === note
+        && (last.marks || []).join() === marks.join()) {
+        last.text += normalized;
+        return;
+      }
+
+      const run: InlineRun = { text: normalized };
+      if (marks.length > 0) run.marks = marks;
+      if (link) run.link = link;
+      if (note) run.note = note;
+      if (ruby) run.ruby = ruby;
+      runs.push(run);
+    };
+
+    const walk = (node: Node, marks: InlineMark[], link?: InlineLink, note?: InlineNote) => {
+      for (const child of Array.from(node.childNodes)) {
+        if (child.nodeType === 3) {
+          push(child.textContent || '', marks, link, note);
+          continue;
+        }
+        if (child.nodeType !== 1) continue;
+
+        const el = child as Element;
+        const tagName = el.localName.toLowerCase();
+        const href = tagName === 'a' ? el.getAttribute('href') : null;
+        const noteRef = tagName === 'a' ? el.getAttribute('data-note-ref') : null;
+        this.recordAnchor(el, anchors, index);
+
+        if (tagName === 'ruby') {
+          for (const [base, annotation] of this.collectRuby(el)) {
+            push(base, marks, link, note, annotation || undefined);
+          }
+        } else if (tagName === 'br') {
+          push('\n', marks, link, note);
+        } else if (noteRef !== null) {
+          walk(el, marks, undefined, notes[Number(noteRef)]);
+        } else if (href) {
+          walk(el, marks, this.resolveLink(href, epubBook, section) || link, note);
+        } else {
+          const mark = this.INLINE_MARKS[tagName];
+          walk(el, mark && !marks.includes(mark) ? [...marks, mark] : marks, link, note);
+          // 段内的块级元素（如列表项中的多个 <p>）之间用空格分隔
+          if (this.BLOCK_TAGS.test(tagName)) {
+            push(' ', marks, link, note);
+          }
+        }
+      }
+    };
+
+    walk(element, []);
+
+    // 去掉换行两侧和首尾的空白
+    for (const run of runs) {
+      run.text = run.text.replace(/ *\n */g, '\n');
+    }
+    if (runs.length > 0) {
+      runs[0].text = runs[0].text.trimStart();
+      runs[runs.length - 1].text = runs[runs.length - 1].text.trimEnd();
+    }
+    const trimmed = runs.filter(run => run.text);
+    const text = trimmed.map(run => run.text).join('');
+    if (!text) return null;
+
+    const rich = trimmed.some(run => run.marks || run.ruby || run.link || run.note);
+    return { text, runs: rich ? trimmed : null, block: null };
+  }
+
+  /**
+   * 展开列表：每个列表项生成一个段落，嵌套列表深度 +1
+   * 列表项中的嵌套列表不计入该项的文本，列表项中的图片截断 layer
+   *
+   * @param globalIndex - 当前段落缓冲区第一段的全局索引
+   * @returns 下一个可用的全局索引（图片截断 layer 后会前移）
+   */
+  private static async collectList(
+    list: Element,
+    depth: number,
+    layers: ContentLayer[],
+    currentParagraphs: ParagraphDraft[],
+    anchors: Map<string, number>,
+    notes: InlineNote[],
+    epubBook: Book,
+    section: any,
+    globalIndex: number
+  ): Promise<number> {
+    const ordered = list.tagName.toLowerCase() === 'ol';
+    const start = parseInt(list.getAttribute('start') || '', 10);
+    let number = Number.isNaN(start) ? 1 : start;
+
+    for (const item of Array.from(list.children)) {
+      if (item.tagName.toLowerCase() !== 'li') continue;
+
+      const value = parseInt(item.getAttribute('value') || '', 10);
+      if (!Number.isNaN(value)) number = value;
+
+      const nested = Array.from(item.children).filter(c => /^(ul|ol)$/.test(c.tagName.toLowerCase()));
+      const content = item.cloneNode(true) as Element;
+      for (const sub of Array.from(content.children)) {
+        if (/^(ul|ol)$/.test(sub.tagName.toLowerCase())) sub.remove();
+      }
+
+      const index = globalIndex + currentParagraphs.length;
+      this.recordAnchor(item, anchors, index);
+      const paragraph = this.collectParagraph(content, epubBook, section, anchors, notes, index);
+      if (paragraph) {
+        paragraph.block = {
+          type: 'list-item',
+          depth,
+          marker: ordered ? `${number}.` : this.BULLETS[depth % this.BULLETS.length]
+        };
+        currentParagraphs.push(paragraph);
+      }
+      number++;
+
+      // 列表项中的图片排在该项文字之后（嵌套列表中的图片由嵌套列表处理）
+      globalIndex = await this.appendImages(content, layers, currentParagraphs, epubBook, section, globalIndex);
+
+      for (const sub of nested) {
+        globalIndex = await this.collectList(sub, depth + 1, layers, currentParagraphs, anchors, notes, epubBook, section, globalIndex);
+      }
+    }
+    return globalIndex;
+  }
+
+  /**
+   * 提取表格单元格文本，忽略嵌套表格
+   * 纯文本为每行一行、单元格以制表符分隔
+   */
+  private static collectTable(table: Element): ParagraphDraft | null {
+    const rows = Array.from(table.querySelectorAll('tr'))
+      .filter(tr => tr.closest('table') === table)
+      .map(tr => Array.from(tr.children)
+        .filter(cell => /^t[dh]$/.test(cell.tagName.toLowerCase()))
+        .map(cell => (cell.textContent || '').replace(/\s+/g, ' ').trim()))
+      .filter(cells => cells.some(Boolean));
+    if (rows.length === 0) return null;
+
+    const firstRow = Array.from(table.querySelectorAll('tr')).find(tr => tr.closest('table') === table);
+    const header = !!firstRow && (
+      firstRow.parentElement?.tagName.toLowerCase() === 'thead'
+      || Array.from(firstRow.children).every(cell => cell.tagName.toLowerCase() === 'th')
+    );
+
+    return {
+      text: rows.map(cells => cells.join('\t')).join('\n'),
+      runs: null,
+      block: { type: 'table', rows, header }
+    };
+  }
+
+  /**
+   * 拆分 <ruby>：每个 <rt> 注音对应它之前的基文字，<rp> 括号忽略
+   */
+  private static collectRuby(ruby: Element): [string, string][] {
+    const pairs: [string, string][] = [];
+    let base = '';
+
+    for (const child of Array.from(ruby.childNodes)) {
+      const tagName = child.nodeType === 1 ? (child as Element).localName.toLowerCase() : '';
+      if (tagName === 'rt') {
+        pairs.push([base, child.textContent?.trim() || '']);
+        base = '';
+      } else if (tagName !== 'rp') {
+        base += child.textContent || '';
+      }
+    }
+
+    if (base.trim()) {
+      pairs.push([base, '']);
+    }
+    return pairs;
+  }
+
+  /**
+   * 解析链接：外部链接保留原始 URL，书内链接转换为 spine href + 锚点
+   * 指向书外文件、无法解析或协议不在白名单中（如 javascript:、data:）的链接返回 undefined（按普通文本显示）
+   */
+  private static resolveLink(href: string, epubBook: Book, section: any): InlineLink | undefined {
+    const scheme = /^\s*([a-z][\w+.-]*):/i.exec(href);
+    if (scheme) {
+      return this.EXTERNAL_SCHEMES.includes(scheme[1].toLowerCase()) ? { href: href.trim(), external: true } : undefined;
+    }
+
+    const [path, fragment] = href.split('#');
+    const anchor = this.decodeFragment(fragment);
+    if (!path) {
+      return { href: section.href, anchor };
+    }
+
+    const target = epubBook.spine.get(this.resolvePath(section.href, path));
+    return target ? { href: target.href, anchor } : undefined;
+  }
+
+  /**
+   * 将相对路径解析为相对于 OPF 目录的路径（与 spine href 相同格式）
+   */
+  private static resolvePath(base: string, relative: string): string {
+    const parts = base.split('/').slice(0, -1);
+    for (const part of relative.split('/')) {
+      if (part === '..') {
+        parts.pop();
+      } else if (part !== '.' && part !== '') {
+        parts.push(part);
+      }
+    }
+    return parts.join('/');
+  }
 }
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { Fb2Adapter } from './Fb2Adapter';
+
+const PNG_BASE64 = btoa(String.fromCharCode(0x89, 0x50, 0x4e, 0x47));
+
+const SAMPLE = `<?xml version="1.0" encoding="utf-8"?>
+<FictionBook xmlns="http://www.gribuser.ru/xml/fictionbook/2.0" xmlns:l="http://www.w3.org/1999/xlink">
+  <description>
+    <title-info>
+      <author><first-name>Лев</first-name><last-name>Толстой</last-name></author>
+      <book-title>Война и мир</book-title>
+      <annotation><p>Роман-эпопея.</p></annotation>
+      <lang>ru</lang>
+      <sequence name="Классика" number="2"/>
+      <coverpage><image l:href="#cover.png"/></coverpage>
+    </title-info>
+  </description>
+  <body>
+    <section>
+      <title><p>Том первый</p></title>
+      <section>
+        <title><p>Глава 1</p></title>
+        <p>Первый абзац.</p>
+        <image l:href="#cover.png"/>
+        <poem><stanza><v>Строка</v></stanza></poem>
+      </section>
+      <section>
+        <title><p>Глава 2</p></title>
+        <p>Второй абзац.</p>
+      </section>
+    </section>
+  </body>
+  <body name="notes">
+    <section id="n1"><title><p>1</p></title><p>Примечание.</p></section>
+  </body>
+  <binary id="cover.png" content-type="image/png">${PNG_BASE64}</binary>
+</FictionBook>`;
+
+function toBuffer(xml: string): ArrayBuffer {
+  return new TextEncoder().encode(xml).buffer as ArrayBuffer;
+}
+
+describe('Fb2Adapter', () => {
+  it('should sniff FictionBook XML', () => {
+    const header = new Uint8Array(toBuffer(SAMPLE).slice(0, 128));
+    expect(Fb2Adapter.sniff(header)).toBe(true);
+  });
+
+  it('should extract description metadata and cover blob', async () => {
+    const book = await Fb2Adapter.parse(toBuffer(SAMPLE), 'war.fb2');
+
+    expect(book.title).toBe('Война и мир');
+    expect(book.author).toBe('Лев Толстой');
+    expect(book.description).toBe('Роман-эпопея.');
+    expect(book.series).toBe('Классика');
+    expect(book.seriesIndex).toBe(2);
+    expect(book.language).toBe('ru');
+    expect(book.cover).toBeInstanceOf(Blob);
+    expect(book.cover?.type).toBe('image/png');
+  });
+
+  it('should flatten nested sections with levels', async () => {
+    const book = await Fb2Adapter.parse(toBuffer(SAMPLE), 'war.fb2');
+
+    expect(book.chapters.map(c => [c.title, c.level])).toEqual([
+      ['Том первый', 0],
+      ['Глава 1', 1],
+      ['Глава 2', 1],
+      ['注释', 0]
+    ]);
+    expect(book.chapters.map(c => c.parentId)).toEqual([undefined, 0, 0, undefined]);
+  });
+
+  it('should load section content with image layers', async () => {
+    const book = await Fb2Adapter.parse(toBuffer(SAMPLE), 'war.fb2');
+    const layers = await Fb2Adapter.loadChapter(book, 1);
+
+    expect(layers).toHaveLength(2);
+    expect(layers[0].paragraphs).toEqual(['Глава 1', 'Первый абзац.']);
+    expect(layers[0].image).toMatch(/^blob:/);
+    expect(layers[1]).toEqual({ paragraphs: ['Строка'], startIndex: 3, image: undefined });
+
+    const notes = await Fb2Adapter.loadChapter(book, 3);
+    expect(notes[0].paragraphs).toEqual(['1', 'Примечание.']);
+  });
+
+  it('should split paragraphs around inline images', async () => {
+    const xml = SAMPLE.replace(
+      '<p>Второй абзац.</p>',
+      '<p>До <emphasis>картинки</emphasis> <image l:href="#cover.png"/> после.</p>'
+    );
+    const book = await Fb2Adapter.parse(toBuffer(xml), 'inline.fb2');
+    const layers = await Fb2Adapter.loadChapter(book, 2);
+
+    expect(layers).toHaveLength(2);
+    expect(layers[0].paragraphs).toEqual(['Глава 2', 'До картинки']);
+    expect(layers[0].image).toMatch(/^blob:/);
+    expect(layers[1]).toEqual({ paragraphs: ['после.'], startIndex: 3, image: undefined });
+  });
+});
@@ -0,0 +1,444 @@
+/**
+ * FictionBook（FB2 / FB2.ZIP）格式适配器
+ * 将 FB2 XML 转换为统一的 UnifiedBook 结构
+ *
+ * 文件结构：
+ * - <description>：书名、作者、简介（annotation）、系列（sequence）、封面（coverpage）
+ * - <body>：嵌套的 <section>，每个 section 有可选的 <title>
+ * - <binary>：Base64 编码的图片，按 id 被 <image l:href="#id"/> 引用
+ *
+ * 每个 section 作为一个章节（仅包含其直接内容，不含子 section），
+ * 嵌套深度记录在 UnifiedChapter.level 中；图片统一转为 Blob，不保留 Base64，
+ * 段落中的行内图片拆分出来，与块级图片一样生成图片 layer
+ */
+
+import JSZip from 'jszip';
+import type { UnifiedBook, UnifiedChapter, ContentLayer } from '@/types/book';
+import { LayerBuilder } from './LayerBuilder';
+
+/**
+ * 可作为章节的节点（section 或没有 section 的 body）
+ */
+interface Fb2Section {
+  element: Element;
+  level: number;
+  parent?: number;      // 父章节在列表中的位置（顶层为空）
+  title: string;
+  flatten?: boolean;    // 是否包含子 section 的内容（用于注释 body）
+}
+
+/**
+ * 已解析的 FB2 文档，按书缓存，避免每章重复解析 XML
+ */
+interface Fb2Content {
+  document: Document;
+  sections: Fb2Section[];
+  binaries: Map<string, Element>;
+}
+
+export class Fb2Adapter {
+  /**
+   * FormatAdapter 元信息
+   */
+  static readonly format = 'fb2';
+  static readonly label = 'FB2';
+  static readonly version = 2;
+  static readonly extensions = ['.fb2', '.fb2.zip'];
+
+  /**
+   * 已解析文档缓存（以原始数据为键，书籍关闭时由 dispose 释放）
+   */
+  private static contentCache: WeakMap<ArrayBuffer, Fb2Content> = new WeakMap();
+
+  /**
+   * 魔数检测：XML 文件头中出现 <FictionBook 根元素
+   */
+  static sniff(header: Uint8Array): boolean {
+    const text = String.fromCharCode(...header).replace(/^\xEF\xBB\xBF/, '').trimStart();
+    return text.startsWith('<?xml') && text.includes('<FictionBook');
+  }
+
+  /**
+   * 解析 FB2 文件为 UnifiedBook
+   */
+  static async parse(
+    arrayBuffer: ArrayBuffer,
+    filename: string
+  ): Promise<UnifiedBook> {
+    console.log('[Fb2Adapter] 开始解析 FB2 文件:', filename);
+
+    // 1. 解析 XML（FB2.ZIP 先解压）
+    const content = await this.getContent(arrayBuffer);
+    const titleInfo = this.findDescendant(content.document.documentElement, ['description', 'title-info']);
+
+    // 2. 提取元数据
+    const title = this.childText(titleInfo, 'book-title') || filename.replace(/\.fb2(\.zip)?$/i, '');
+    const authors = this.childElements(titleInfo, 'author').map(a => this.formatAuthor(a)).filter(Boolean);
+    const author = authors.length > 0 ? authors.join(' & ') : 'Unknown';
+    const annotation = this.childElements(titleInfo, 'annotation')[0];
+    const description = annotation ? this.blockTexts(annotation).join('\n') : undefined;
+    const sequence = this.childElements(titleInfo, 'sequence')[0];
+    const series = sequence?.getAttribute('name') || undefined;
+    const seriesNumber = Number(sequence?.getAttribute('number'));
+    const language = this.childText(titleInfo, 'lang') || undefined;
+
+    console.log('[Fb2Adapter] 书籍信息:', { title, author, series });
+
+    // 3. 提取封面
+    const coverImage = this.findDescendant(titleInfo, ['coverpage', 'image']);
+    const cover = coverImage ? this.getImageBlob(content, coverImage) : null;
+
+    // 4. 生成目录（懒加载，不解析内容）
+    const chapters: UnifiedChapter[] = content.sections.map((section, i) => ({
+      id: i,
+      title: section.title || `Chapter ${i + 1}`,
+      level: section.level,
+      parentId: section.parent,
+      layers: [],
+      isLoaded: false
+    }));
+    console.log('[Fb2Adapter] 检测到章节数:', chapters.length);
+
+    // 5. 构建 UnifiedBook
+    const book: UnifiedBook = {
+      title,
+      author,
+      cover,
+      format: 'fb2',
+      description,
+      series,
+      seriesIndex: Number.isFinite(seriesNumber) && seriesNumber > 0 ? seriesNumber : undefined,
+      language,
+      chapters,
+      rawData: arrayBuffer,
+      addTime: Date.now()
+    };
+
+    return book;
+  }
+
+  /**
+   * 懒加载：解析指定章节（section 的直接内容）为 ContentLayer 数组
+   */
+  static async loadChapter(
+    book: UnifiedBook,
+    chapterId: number,
+    signal?: AbortSignal
+  ): Promise<ContentLayer[]> {
+    console.log('[Fb2Adapter] 懒加载章节:', chapterId);
+
+    const chapter = book.chapters[chapterId];
+    if (!chapter) {
+      throw new Error(`章节 ${chapterId} 不存在`);
+    }
+
+    // 如果已加载，直接返回
+    if (chapter.isLoaded && chapter.layers.length > 0) {
+      console.log('[Fb2Adapter] 章节已缓存，直接返回');
+      return chapter.layers;
+    }
+
+    const content = await this.getContent(book.rawData);
+    // 以下同步构建，取消只需在此检查
+    signal?.throwIfAborted();
+
+    const section = content.sections[chapterId];
+    if (!section) {
+      return [{
+        paragraphs: [`章节 "${chapter.title}" 内容不存在或无法加载`],
+        startIndex: 0
+      }];
+    }
+
+    const builder = new LayerBuilder();
+    this.appendBlocks(section.element, builder, content, section.flatten);
+    const layers = builder.build();
+
+    console.log('[Fb2Adapter] 章节解析完成，layers 数:', layers.length);
+    return layers;
+  }
+
+  /**
+   * 释放已解析的文档缓存
+   */
+  static dispose(book: UnifiedBook): void {
+    this.contentCache.delete(book.rawData);
+  }
+
+  /**
+   * 获取已解析文档（缓存未命中时重新解析）
+   */
+  private static async getContent(arrayBuffer: ArrayBuffer): Promise<Fb2Content> {
+    const cached = this.contentCache.get(arrayBuffer);
+    if (cached) return cached;
+
+    const xml = this.decodeXml(await this.extractXml(arrayBuffer));
+    const document = new DOMParser().parseFromString(xml, 'application/xml');
+    if (document.getElementsByTagName('parsererror').length > 0 || document.documentElement.localName !== 'FictionBook') {
+      throw new Error('无效的 FB2 文件');
+    }
+
+    const binaries = new Map<string, Element>();
+    for (const binary of this.childElements(document.documentElement, 'binary')) {
+      const id = binary.getAttribute('id');
+      if (id) binaries.set(id, binary);
+    }
+
+    const content: Fb2Content = {
+      document,
+      sections: this.collectSections(document.documentElement),
+      binaries
+    };
+    this.contentCache.set(arrayBuffer, content);
+    return content;
+  }
+
+  /**
+   * 取出 XML 字节：FB2.ZIP 解压第一个 .fb2 条目
+   */
+  private static async extractXml(arrayBuffer: ArrayBuffer): Promise<Uint8Array> {
+    const bytes = new Uint8Array(arrayBuffer);
+    const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+    if (!isZip) return bytes;
+
+    const zip = await JSZip.loadAsync(arrayBuffer);
+    const entry = Object.values(zip.files).find(f => !f.dir && /\.fb2$/i.test(f.name));
+    if (!entry) {
+      throw new Error('压缩包中没有 FB2 文件');
+    }
+    return await entry.async('uint8array');
+  }
+
+  /**
+   * 按 XML 声明中的 encoding 解码（俄文 FB2 常见 windows-1251）
+   */
+  private static decodeXml(bytes: Uint8Array): string {
+    const declaration = String.fromCharCode(...bytes.subarray(0, 200));
+    const match = declaration.match(/encoding=["']([\w-]+)["']/i);
+    const encoding = match ? match[1].toLowerCase() : 'utf-8';
+
+    try {
+      return new TextDecoder(encoding).decode(bytes);
+    } catch {
+      console.warn('[Fb2Adapter] 不支持的编码，回退到 UTF-8:', encoding);
+      return new TextDecoder('utf-8').decode(bytes);
+    }
+  }
+
+  /**
+   * 展开所有 body 中的 section 为章节列表（深度优先）
+   * 只有标题和子 section 的分卷也作为一个章节保留，用于体现层级
+   * 父章节为最近一个保留下来的外层 section（或有自身内容的 body）
+   */
+  private static collectSections(root: Element): Fb2Section[] {
+    const sections: Fb2Section[] = [];
+
+    const visit = (element: Element, level: number, parent?: number) => {
+      const title = this.sectionTitle(element);
+      const hasContent = Array.from(element.children).some(c => c.localName !== 'section' && c.localName !== 'title');
+      if (title || hasContent) {
+        sections.push({ element, level, parent, title });
+        parent = sections.length - 1;
+      }
+      for (const child of this.childElements(element, 'section')) {
+        visit(child, level + 1, parent);
+      }
+    };
+
+    for (const body of this.childElements(root, 'body')) {
+      const isNotes = body.getAttribute('name') === 'notes';
+      const title = this.sectionTitle(body) || (isNotes ? '注释' : '');
+      const children = this.childElements(body, 'section');
+
+      // 注释 body 中每条注释都是一个 section，整体合并为一个章节
+      if (isNotes || children.length === 0) {
+        sections.push({ element: body, level: 0, title, flatten: isNotes });
+        continue;
+      }
+
+      // body 自身的标题/题记作为独立章节
+      const hasOwnContent = Array.from(body.children).some(c => c.localName !== 'section');
+      if (hasOwnContent) {
+        sections.push({ element: body, level: 0, title });
+      }
+      const parent = hasOwnContent ? sections.length - 1 : undefined;
+      for (const child of children) {
+        visit(child, hasOwnContent ? 1 : 0, parent);
+      }
+    }
+
+    return sections;
+  }
+
+  /**
+   * 将 section 的直接内容写入 LayerBuilder
+   * @param flatten - 为 true 时同时写入子 section，否则跳过
+   */
+  private static appendBlocks(element: Element, builder: LayerBuilder, content: Fb2Content, flatten = false): void {
+    for (const child of Array.from(element.children)) {
+      switch (child.localName) {
+        case 'section':
+          if (flatten) {
+            this.appendBlocks(child, builder, content, true);
+          }
+          break;
+        case 'empty-line':
+          break;
+        case 'title':
+          builder.addParagraph(this.blockTexts(child).join(' '));
+          break;
+        case 'p':
+        case 'v':
+        case 'subtitle':
+        case 'text-author':
+          this.appendParagraph(child, builder, content);
+          break;
+        case 'image':
+          this.appendImage(child, builder, content);
+          break;
+        case 'table':
+          for (const row of Array.from(child.children)) {
+            builder.addParagraph(Array.from(row.children).map(cell => this.inlineText(cell)).join(' | '));
+          }
+          break;
+        default:
+          // epigraph / cite / poem / stanza / annotation 等容器
+          this.appendBlocks(child, builder, content, flatten);
+      }
+    }
+  }
+
+  /**
+   * 写入段落：行内 <image> 把段落拆开，图片之前的文字先成段，图片按块级图片处理，之后的文字另起一段
+   */
+  private static appendParagraph(paragraph: Element, builder: LayerBuilder, content: Fb2Content): void {
+    let text = '';
+    const visit = (node: Node) => {
+      for (const child of Array.from(node.childNodes)) {
+        if (child.nodeType === Node.TEXT_NODE) {
+          text += child.textContent;
+        } else if (child.nodeType === Node.ELEMENT_NODE && (child as Element).localName === 'image') {
+          builder.addParagraph(text.replace(/\s+/g, ' '));
+          text = '';
+          this.appendImage(child as Element, builder, content);
+        } else if (child.nodeType === Node.ELEMENT_NODE) {
+          visit(child);
+        }
+      }
+    };
+
+    visit(paragraph);
+    builder.addParagraph(text.replace(/\s+/g, ' '));
+  }
+
+  /**
+   * 写入图片（无法解码时跳过）
+   */
+  private static appendImage(image: Element, builder: LayerBuilder, content: Fb2Content): void {
+    const blob = this.getImageBlob(content, image);
+    if (blob) {
+      builder.addImage(URL.createObjectURL(blob), blob.size);
+    }
+  }
+
+  /**
+   * 将 <binary> 中的 Base64 图片解码为 Blob
+   */
+  private static getImageBlob(content: Fb2Content, image: Element): Blob | null {
+    const href = this.getHref(image);
+    if (!href || !href.startsWith('#')) return null;
+
+    const binary = content.binaries.get(href.slice(1));
+    if (!binary) {
+      console.warn('[Fb2Adapter] 图片不存在:', href);
+      return null;
+    }
+
+    try {
+      const raw = atob((binary.textContent || '').replace(/\s+/g, ''));
+      const bytes = new Uint8Array(raw.length);
+      for (let i = 0; i < raw.length; i++) {
+        bytes[i] = raw.charCodeAt(i);
+      }
+      return new Blob([bytes], { type: binary.getAttribute('content-type') || 'image/jpeg' });
+    } catch (error) {
+      console.error('[Fb2Adapter] 图片解码失败:', href, error);
+      return null;
+    }
+  }
+
+  /**
+   * 读取 l:href / xlink:href（前缀不固定，按 localName 匹配）
+   */
+  private static getHref(element: Element): string | null {
+    for (const attr of Array.from(element.attributes)) {
+      if (attr.localName === 'href' || attr.name.endsWith(':href')) return attr.value;
+    }
+    return null;
+  }
+
+  /**
+   * section / body 的标题文本
+   */
+  private static sectionTitle(element: Element): string {
+    const title = this.childElements(element, 'title')[0];
+    return title ? this.blockTexts(title).join(' ') : '';
+  }
+
+  /**
+   * 作者姓名：名 + 父名 + 姓，缺失时使用昵称
+   */
+  private static formatAuthor(author: Element): string {
+    const name = ['first-name', 'middle-name', 'last-name']
+      .map(tag => this.childText(author, tag))
+      .filter(Boolean)
+      .join(' ');
+    return name || this.childText(author, 'nickname');
+  }
+
+  /**
+   * 容器内所有 <p> 的文本
+   */
+  private static blockTexts(element: Element): string[] {
+    const paragraphs = Array.from(element.getElementsByTagName('p'));
+    if (paragraphs.length === 0) {
+      return [this.inlineText(element)].filter(Boolean);
+    }
+    return paragraphs.map(p => this.inlineText(p)).filter(Boolean);
+  }
+
+  /**
+   * 行内文本（合并空白）
+   */
+  private static inlineText(element: Element): string {
+    return (element.textContent || '').replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * 直接子元素文本
+   */
+  private static childText(element: Element | null, localName: string): string {
+    const child = element ? this.childElements(element, localName)[0] : undefined;
+    return child ? this.inlineText(child) : '';
+  }
+
+  /**
+   * 按 localName 过滤直接子元素（忽略命名空间前缀）
+   */
+  private static childElements(element: Element | null, localName: string): Element[] {
+    if (!element) return [];
+    return Array.from(element.children).filter(c => c.localName === localName);
+  }
+
+  /**
+   * 按路径查找后代元素，如 ['description', 'title-info']
+   */
+  private static findDescendant(element: Element | null, path: string[]): Element | null {
+    let current = element;
+    for (const name of path) {
+      current = this.childElements(current, name)[0] || null;
+      if (!current) return null;
+    }
+    return current;
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * 格式适配器接口
+ * 所有书籍格式都通过实现该接口接入统一阅读内核
+ * 阅读器、章节缓存和书库只通过 AdapterRegistry 访问适配器，不直接依赖具体格式
+ */
+
+import type { UnifiedBook, ContentLayer, BookFormat, ChapterRule, TxtChapterIndex } from '@/types/book';
+
+/**
+ * 解析选项（由书库在导入和重新打开时传入，适配器按需使用）
+ */
+export interface ParseOptions {
+  chapterRule?: ChapterRule;   // TXT 章节识别规则
+  encoding?: string;           // 手动指定的文本编码（省略则自动检测）
+  chapterIndex?: TxtChapterIndex; // 已保存的 TXT 章节偏移索引（仍然有效时跳过全文解码）
+  reflow?: boolean;            // 手动指定是否合并 TXT 硬换行（省略则自动检测）
+  chapterHeadingLevel?: number; // HTML / Markdown 作为章节起点的最大标题级别 1-6（省略则为 h2）
+
+  // 运行时选项（不随书保存，也不会发送到解析 Worker，由 ParserService 转为消息）
+  onProgress?: (progress: number) => void; // 解析进度 0-1
+  signal?: AbortSignal;        // 取消解析
+}
+
+export interface FormatAdapter {
+  /**
+   * 格式标识，写入 UnifiedBook.format / Book.format
+   */
+  readonly format: BookFormat;
+
+  /**
+   * 展示名称（如 "EPUB"），用于导入提示和错误信息
+   */
+  readonly label: string;
+
+  /**
+   * 解析器版本：章节解析结果（ContentLayer 的结构或内容）变化时递增，
+   * 使 IndexedDB 中持久化的章节缓存失效
+   */
+  readonly version: number;
+
+  /**
+   * 支持的文件扩展名（小写，带点号），如 ['.epub']
+   */
+  readonly extensions: readonly string[];
+
+  /**
+   * 魔数检测（可选）
+   * 扩展名无法识别时，根据文件头部字节判断是否为该格式
+   * @param header - 文件开头的若干字节（见 AdapterRegistry.HEADER_SIZE）
+   */
+  sniff?(header: Uint8Array): boolean;
+
+  /**
+   * 解析文件为 UnifiedBook（仅元数据和目录，章节内容懒加载）
+   * @param options - 解析选项，不支持的选项直接忽略
+   */
+  parse(arrayBuffer: ArrayBuffer, filename: string, options?: ParseOptions): Promise<UnifiedBook>;
+
+  /**
+   * 懒加载：解析指定章节为 ContentLayer 数组
+   * @param signal - 取消加载：以 AbortError 拒绝，并释放本次加载已创建的图片 Blob URL
+   */
+  loadChapter(book: UnifiedBook, chapterId: number, signal?: AbortSignal): Promise<ContentLayer[]>;
+
+  /**
+   * 释放适配器为该书持有的资源（可选）
+   * 在 ChapterCache.clear() 时调用
+   */
+  dispose?(book: UnifiedBook): void;
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { HtmlAdapter } from './HtmlAdapter';
+
+const PNG_DATA_URI = `data:image/png;base64,${btoa(String.fromCharCode(0x89, 0x50, 0x4e, 0x47))}`;
+
+const SAMPLE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <title>Saved Article</title>
+  <meta name="author" content="Jane">
+  <style>p { color: red; }</style>
+</head>
+<body>
+  <article>
+    <h1>Part One</h1>
+    <p>Intro <em>text</em>.</p>
+    <img src="${PNG_DATA_URI}">
+    <p>After image.</p>
+    <h1>Part Two</h1>
+    <p>Second part.</p>
+  </article>
+</body>
+</html>`;
+
+function toBuffer(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+describe('HtmlAdapter', () => {
+  it('should sniff HTML documents', () => {
+    expect(HtmlAdapter.sniff(new Uint8Array(toBuffer(SAMPLE).slice(0, 128)))).toBe(true);
+    expect(HtmlAdapter.sniff(new Uint8Array(toBuffer('plain text')))).toBe(false);
+  });
+
+  it('should read metadata and split chapters on nested headings', async () => {
+    const book = await HtmlAdapter.parse(toBuffer(SAMPLE), 'article.html');
+
+    expect(book.title).toBe('Saved Article');
+    expect(book.author).toBe('Jane');
+    expect(book.language).toBe('en');
+    expect(book.cover?.type).toBe('image/png');
+    expect(book.chapters.map(c => c.title)).toEqual(['Part One', 'Part Two']);
+  });
+
+  it('should convert data URI images into blob layers', async () => {
+    const book = await HtmlAdapter.parse(toBuffer(SAMPLE), 'article.html');
+    const layers = await HtmlAdapter.loadChapter(book, 0);
+
+    expect(layers).toHaveLength(2);
+    expect(layers[0].paragraphs).toEqual(['Part One', 'Intro text.']);
+    expect(layers[0].image).toMatch(/^blob:/);
+    expect(layers[1]).toEqual({ paragraphs: ['After image.'], startIndex: 3, image: undefined });
+  });
+
+  it('should split chapters at the heading level from the parse options and reuse it for loading', async () => {
+    const html = `<html><body>
+      <h2>One</h2><p>A</p>
+      <h3>One.1</h3><p>B</p>
+      <h2>Two</h2><p>C</p>
+    </body></html>`;
+
+    const byDefault = await HtmlAdapter.parse(toBuffer(html), 'a.html');
+    expect(byDefault.chapters.map(c => c.title)).toEqual(['One', 'Two']);
+    expect(byDefault.chapterHeadingLevel).toBe(2);
+
+    const book = await HtmlAdapter.parse(toBuffer(html), 'a.html', { chapterHeadingLevel: 3 });
+    expect(book.chapterHeadingLevel).toBe(3);
+    expect(book.chapters.map(c => ({ title: c.title, level: c.level }))).toEqual([
+      { title: 'One', level: 0 },
+      { title: 'One.1', level: 1 },
+      { title: 'Two', level: 0 }
+    ]);
+
+    // 同一份数据按默认级别解析过之后，按章加载仍使用随书保存的级别
+    await HtmlAdapter.parse(book.rawData, 'a.html');
+    const layers = await HtmlAdapter.loadChapter(book, 1);
+    expect(layers.flatMap(l => l.paragraphs)).toEqual(['One.1', 'B']);
+  });
+
+  it('should link nested headings to their parent chapter', async () => {
+    const html = `<html><body>
+      <p>Preface.</p>
+      <h2>Part</h2>
+      <h3>Chapter 1</h3><p>A</p>
+      <h4>Scene</h4><p>B</p>
+      <h3>Chapter 2</h3><p>C</p>
+      <h2>Appendix</h2><p>D</p>
+    </body></html>`;
+
+    const book = await HtmlAdapter.parse(toBuffer(html), 'a.html', { chapterHeadingLevel: 4 });
+
+    expect(book.chapters.map(c => [c.title, c.level, c.parentId])).toEqual([
+      ['前言', 0, undefined],
+      ['Part', 0, undefined],
+      ['Chapter 1', 1, 1],
+      ['Scene', 2, 2],
+      ['Chapter 2', 1, 1],
+      ['Appendix', 0, undefined]
+    ]);
+  });
+
+  it('should keep HTMLZ image paths that are not valid percent-encoding', async () => {
+    const zip = new JSZip();
+    zip.file('index.html', '<html><body><h1>Only</h1><img src="images/100%.png"><p>Text</p><img src="images/a%20b.png"></body></html>');
+    zip.file('images/100%.png', new Uint8Array([0x89, 0x50, 0x4e, 0x47]));
+    zip.file('images/a b.png', new Uint8Array([0x89, 0x50, 0x4e, 0x47]));
+    const data = await zip.generateAsync({ type: 'arraybuffer' });
+
+    const book = await HtmlAdapter.parse(data, 'book.htmlz');
+    expect(book.cover?.type).toBe('image/png');
+
+    const layers = await HtmlAdapter.loadChapter(book, 0);
+    expect(layers.filter(l => l.image).map(l => l.image)).toEqual([expect.stringMatching(/^blob:/), expect.stringMatching(/^blob:/)]);
+  });
+});
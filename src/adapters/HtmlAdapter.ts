@@ -0,0 +1,440 @@
+/**
+ * 网页（HTML / HTMLZ）格式适配器
+ * 将保存的网页文章转换为统一的 UnifiedBook 结构
+ *
+ * 分章规则：
+ * - h1 ~ h{chapterHeadingLevel} 标题作为章节起点（ParseOptions.chapterHeadingLevel，默认 h2），章节内容为该标题到下一个标题之间的所有节点
+ * - 全文只有一个 h1 时视为书名，不参与分章
+ * - 第一个标题之前的内容作为"前言"章节；没有任何标题时全文作为一个章节
+ *
+ * 图片只接受本地资源：data: URI 和 HTMLZ 压缩包内的相对路径，统一转为 Blob URL；
+ * 远程图片无法离线阅读，直接忽略
+ */
+
+import JSZip from 'jszip';
+import type { UnifiedBook, UnifiedChapter, ContentLayer } from '@/types/book';
+import type { ParseOptions } from './FormatAdapter';
+import { EncodingDetector } from '@/core/EncodingDetector';
+import { LayerBuilder } from './LayerBuilder';
+
+/**
+ * 章节起点（heading 为 null 表示从正文开头开始）
+ */
+interface MarkupSection {
+  heading: Element | null;
+  level: number;
+  title: string;
+}
+
+/**
+ * 已解析的文档，按书缓存，避免每章重复解析
+ */
+interface MarkupContent {
+  document: Document;
+  sections: MarkupSection[];
+  headingLevel: number;  // 分章使用的最大标题级别
+  zip: JSZip | null;
+  basePath: string;     // 正文文件在压缩包中的目录，用于解析相对路径
+}
+
+export class HtmlAdapter {
+  /**
+   * FormatAdapter 元信息
+   */
+  static readonly format: string = 'html';
+  static readonly label: string = 'HTML';
+  static readonly version: number = 1;
+  static readonly extensions: readonly string[] = ['.html', '.htm', '.xhtml', '.htmlz'];
+
+  /**
+   * 默认作为章节起点的最大标题级别（2 表示 h1、h2 分章，h3 及以下保留在正文中）
+   */
+  static readonly DEFAULT_CHAPTER_HEADING_LEVEL = 2;
+
+  /**
+   * 日志前缀（子类覆盖）
+   */
+  protected static readonly logTag: string = '[HtmlAdapter]';
+
+  /**
+   * 图片扩展名对应的 MIME 类型
+   */
+  private static readonly IMAGE_TYPES: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    svg: 'image/svg+xml',
+    bmp: 'image/bmp',
+    avif: 'image/avif'
+  };
+
+  /**
+   * 已解析文档缓存（以原始数据为键，书籍关闭时由 dispose 释放）
+   */
+  private static contentCache: WeakMap<ArrayBuffer, MarkupContent> = new WeakMap();
+
+  /**
+   * 魔数检测：以 <!DOCTYPE html> 或 <html 开头
+   */
+  static sniff(header: Uint8Array): boolean {
+    const text = String.fromCharCode(...header).replace(/^\xEF\xBB\xBF/, '').trimStart().toLowerCase();
+    return text.startsWith('<!doctype html') || text.startsWith('<html');
+  }
+
+  /**
+   * 解析文件为 UnifiedBook
+   */
+  static async parse(
+    arrayBuffer: ArrayBuffer,
+    filename: string,
+    options: ParseOptions = {}
+  ): Promise<UnifiedBook> {
+    console.log(`${this.logTag} 开始解析文件:`, filename);
+
+    // 1. 解析文档并分章
+    const content = await this.getContent(arrayBuffer, this.resolveHeadingLevel(options.chapterHeadingLevel));
+
+    // 2. 提取元数据
+    const metadata = this.extractMetadata(content.document);
+    const title = metadata.title || this.extractTitle(filename);
+    const author = metadata.author || 'Unknown';
+    console.log(`${this.logTag} 书籍信息:`, { title, author });
+
+    // 3. 第一张本地图片作为封面
+    const firstImage = content.document.body.querySelector('img');
+    const cover = firstImage ? await this.getImageBlob(content, firstImage) : null;
+
+    // 4. 生成目录（懒加载，不解析内容）
+    const chapters: UnifiedChapter[] = content.sections.map((section, i) => ({
+      id: i,
+      title: section.title || `Chapter ${i + 1}`,
+      level: section.level,
+      parentId: this.findParent(content.sections, i),
+      layers: [],
+      isLoaded: false
+    }));
+    console.log(`${this.logTag} 检测到章节数:`, chapters.length);
+
+    // 5. 构建 UnifiedBook
+    const book: UnifiedBook = {
+      title,
+      author,
+      cover,
+      format: this.format,
+      description: metadata.description,
+      language: metadata.language,
+      chapterHeadingLevel: content.headingLevel,
+      chapters,
+      rawData: arrayBuffer,
+      addTime: Date.now()
+    };
+
+    return book;
+  }
+
+  /**
+   * 懒加载：解析指定章节（标题到下一个标题之间的内容）为 ContentLayer 数组
+   */
+  static async loadChapter(
+    book: UnifiedBook,
+    chapterId: number,
+    signal?: AbortSignal
+  ): Promise<ContentLayer[]> {
+    console.log(`${this.logTag} 懒加载章节:`, chapterId);
+
+    const chapter = book.chapters[chapterId];
+    if (!chapter) {
+      throw new Error(`章节 ${chapterId} 不存在`);
+    }
+
+    // 如果已加载，直接返回
+    if (chapter.isLoaded && chapter.layers.length > 0) {
+      console.log(`${this.logTag} 章节已缓存，直接返回`);
+      return chapter.layers;
+    }
+
+    const content = await this.getContent(book.rawData, this.resolveHeadingLevel(book.chapterHeadingLevel));
+    const section = content.sections[chapterId];
+    if (!section) {
+      return [{
+        paragraphs: [`章节 "${chapter.title}" 内容不存在或无法加载`],
+        startIndex: 0
+      }];
+    }
+
+    const next = content.sections[chapterId + 1];
+    const fragment = this.extractSection(content.document, section, next);
+    const layers = await LayerBuilder.fromDOM(fragment, element => this.getImageBlob(content, element), signal);
+    LayerBuilder.discardIfAborted(layers, signal);
+
+    console.log(`${this.logTag} 章节解析完成，layers 数:`, layers.length);
+    return layers;
+  }
+
+  /**
+   * 释放已解析的文档缓存
+   */
+  static dispose(book: UnifiedBook): void {
+    this.contentCache.delete(book.rawData);
+  }
+
+  /**
+   * 将源文本转换为 HTML（子类覆盖，如 Markdown 渲染）
+   */
+  protected static toHTML(source: string): string {
+    return source;
+  }
+
+  /**
+   * 从文档中提取元数据（子类可补充，如 Markdown front matter）
+   */
+  protected static extractMetadata(document: Document): {
+    title?: string;
+    author?: string;
+    description?: string;
+    language?: string;
+  } {
+    const meta = (name: string) =>
+      document.querySelector(`meta[name="${name}"], meta[property="og:${name}"]`)?.getAttribute('content')?.trim() || undefined;
+
+    const h1s = document.body.querySelectorAll('h1');
+    const heading = h1s.length === 1 ? this.inlineText(h1s[0]) : '';
+
+    return {
+      title: meta('title') || document.title.trim() || heading || undefined,
+      author: meta('author'),
+      description: meta('description'),
+      language: document.documentElement.getAttribute('lang') || undefined
+    };
+  }
+
+  /**
+   * 是否为正文源文件（子类覆盖，用于在压缩包中定位正文）
+   */
+  protected static isSourceFile(path: string): boolean {
+    return /\.x?html?$/i.test(path);
+  }
+
+  /**
+   * 文件名去掉扩展名作为书名
+   */
+  protected static extractTitle(filename: string): string {
+    const name = filename.toLowerCase();
+    const ext = this.extensions.find(e => name.endsWith(e));
+    return ext ? filename.slice(0, -ext.length) : filename;
+  }
+
+  /**
+   * 分章标题级别：省略时使用默认值，超出范围时限制在 1 ~ 6
+   */
+  private static resolveHeadingLevel(level?: number): number {
+    return Math.min(Math.max(Math.floor(level ?? this.DEFAULT_CHAPTER_HEADING_LEVEL), 1), 6);
+  }
+
+  /**
+   * 获取已解析文档（缓存未命中或分章级别不同时重新解析）
+   */
+  private static async getContent(arrayBuffer: ArrayBuffer, headingLevel: number): Promise<MarkupContent> {
+    const cached = this.contentCache.get(arrayBuffer);
+    if (cached?.headingLevel === headingLevel) return cached;
+
+    const { bytes, zip, path } = await this.extractSource(arrayBuffer);
+    const html = this.toHTML(this.decodeSource(bytes));
+    const document = new DOMParser().parseFromString(html, 'text/html');
+
+    const content: MarkupContent = {
+      document,
+      sections: this.collectSections(document, headingLevel),
+      headingLevel,
+      zip,
+      basePath: path.includes('/') ? path.substring(0, path.lastIndexOf('/') + 1) : ''
+    };
+    this.contentCache.set(arrayBuffer, content);
+    return content;
+  }
+
+  /**
+   * 取出正文字节：压缩包（HTMLZ / TextPack）解压第一个正文文件
+   */
+  private static async extractSource(arrayBuffer: ArrayBuffer): Promise<{
+    bytes: Uint8Array;
+    zip: JSZip | null;
+    path: string;
+  }> {
+    const bytes = new Uint8Array(arrayBuffer);
+    const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+    if (!isZip) {
+      return { bytes, zip: null, path: '' };
+    }
+
+    const zip = await JSZip.loadAsync(arrayBuffer);
+    const entries = Object.values(zip.files)
+      .filter(f => !f.dir && this.isSourceFile(f.name) && !f.name.startsWith('__MACOSX'))
+      .sort((a, b) => a.name.split('/').length - b.name.split('/').length);
+    const entry = entries.find(f => /(^|\/)(index|text)\.\w+$/i.test(f.name)) || entries[0];
+    if (!entry) {
+      throw new Error('压缩包中没有正文文件');
+    }
+
+    return { bytes: await entry.async('uint8array'), zip, path: entry.name };
+  }
+
+  /**
+   * 解码正文：优先使用 <meta charset> 声明的编码，否则自动检测
+   */
+  private static decodeSource(bytes: Uint8Array): string {
+    const head = String.fromCharCode(...bytes.subarray(0, 1024));
+    const match = head.match(/<meta[^>]+charset=["']?([\w-]+)/i);
+
+    if (match) {
+      try {
+        return new TextDecoder(match[1].toLowerCase()).decode(bytes);
+      } catch {
+        console.warn(`${this.logTag} 不支持的编码，改为自动检测:`, match[1]);
+      }
+    }
+
+    return EncodingDetector.decode(bytes).text;
+  }
+
+  /**
+   * 收集作为章节起点的标题（文档顺序）
+   */
+  private static collectSections(document: Document, maxLevel: number): MarkupSection[] {
+    const selector = Array.from({ length: maxLevel }, (_, i) => `h${i + 1}`).join(',');
+    let headings = Array.from(document.body.querySelectorAll(selector))
+      .filter(h => this.inlineText(h));
+
+    // 唯一的 h1 是书名，从下一级标题开始分章
+    const h1s = headings.filter(h => h.localName === 'h1');
+    if (h1s.length === 1 && maxLevel > 1) {
+      headings = headings.filter(h => h !== h1s[0]);
+    }
+
+    if (headings.length === 0) {
+      return [{ heading: null, level: 0, title: '全文' }];
+    }
+
+    const levels = headings.map(h => Number(h.localName.substring(1)));
+    const minLevel = Math.min(...levels);
+    const sections: MarkupSection[] = headings.map((heading, i) => ({
+      heading,
+      level: levels[i] - minLevel,
+      title: this.inlineText(heading)
+    }));
+
+    // 第一个标题之前有正文时保留为前言
+    const preface = this.extractSection(document, { heading: null, level: 0, title: '' }, sections[0]);
+    if (this.inlineText(preface) || preface.querySelector('img')) {
+      sections.unshift({ heading: null, level: 0, title: '前言' });
+    }
+
+    return sections;
+  }
+
+  /**
+   * 父章节：之前最近一个级别更高的标题（前言不作为父章节）
+   */
+  private static findParent(sections: MarkupSection[], index: number): number | undefined {
+    for (let i = index - 1; i >= 0; i--) {
+      if (sections[i].heading && sections[i].level < sections[index].level) return i;
+    }
+    return undefined;
+  }
+
+  /**
+   * 复制从 section 标题到下一个标题之间的节点
+   */
+  private static extractSection(document: Document, section: MarkupSection, next?: MarkupSection): Element {
+    return LayerBuilder.extractRange(document, section.heading, next?.heading || null);
+  }
+
+  /**
+   * 读取本地图片（data: URI 或压缩包内相对路径），远程图片返回 null
+   */
+  private static async getImageBlob(content: MarkupContent, element: Element): Promise<Blob | null> {
+    const src = (element.getAttribute('src') || '').trim();
+    if (!src) return null;
+
+    if (src.startsWith('data:')) {
+      return this.decodeDataUri(src);
+    }
+
+    if (/^[a-z][\w+.-]*:/i.test(src) || src.startsWith('//')) {
+      console.warn(`${this.logTag} 忽略非本地图片:`, src);
+      return null;
+    }
+
+    if (!content.zip) return null;
+
+    const path = this.resolvePath(content.basePath, src);
+    const file = content.zip.file(path);
+    if (!file) {
+      console.warn(`${this.logTag} 图片不存在:`, path);
+      return null;
+    }
+
+    const ext = path.substring(path.lastIndexOf('.') + 1).toLowerCase();
+    const data = await file.async('uint8array');
+    return new Blob([data], { type: this.IMAGE_TYPES[ext] || 'image/jpeg' });
+  }
+
+  /**
+   * 解码 data: URI（支持 Base64 和 URL 编码）
+   */
+  private static decodeDataUri(uri: string): Blob | null {
+    const match = uri.match(/^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s);
+    if (!match) return null;
+
+    const type = match[1] || 'application/octet-stream';
+    try {
+      if (match[2].includes(';base64')) {
+        const raw = atob(match[3].replace(/\s+/g, ''));
+        const bytes = new Uint8Array(raw.length);
+        for (let i = 0; i < raw.length; i++) {
+          bytes[i] = raw.charCodeAt(i);
+        }
+        return new Blob([bytes], { type });
+      }
+      return new Blob([decodeURIComponent(match[3])], { type });
+    } catch (error) {
+      console.error(`${this.logTag} data URI 解码失败:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * 解析相对路径（处理 ./ 和 ../，/ 开头视为压缩包根目录，去掉查询参数和锚点）
+   * 不是合法 %XX 编码的路径（如 100%.png）按原样使用
+   */
+  private static resolvePath(basePath: string, src: string): string {
+    const path = this.decodePath(src.split(/[?#]/)[0]);
+    const parts = (path.startsWith('/') ? path : basePath + path).split('/');
+    const resolved: string[] = [];
+    for (const part of parts) {
+      if (part === '..') resolved.pop();
+      else if (part !== '.' && part !== '') resolved.push(part);
+    }
+    return resolved.join('/');
+  }
+
+  /**
+   * 解码路径中的 %XX（压缩包内的文件名未编码）
+   */
+  private static decodePath(path: string): string {
+    try {
+      return decodeURIComponent(path);
+    } catch {
+      return path;
+    }
+  }
+
+  /**
+   * 行内文本（合并空白）
+   */
+  private static inlineText(node: Node): string {
+    return (node.textContent || '').replace(/\s+/g, ' ').trim();
+  }
+}
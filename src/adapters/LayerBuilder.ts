@@ -0,0 +1,205 @@
+/**
+ * ContentLayer 构建器
+ * 供新增格式适配器共用：按顺序追加段落和图片，自动维护全局索引与分块
+ *
+ * 索引计数规则（与 EpubAdapter 一致）：
+ * - 每个段落占用 1 个索引位
+ * - 图片占用 1 个独立索引位，并截断当前 layer
+ * - 段落序列按 TxtAdapter.chunkParagraphs 的规则自动切分为多个 layer
+ */
+
+import type { ContentLayer } from '@/types/book';
+import { TxtAdapter } from './TxtAdapter';
+
+/**
+ * 图片解析回调：根据 <img> 元素返回图片 Blob，无法解析时返回 null
+ */
+export type ImageResolver = (element: Element) => Promise<Blob | null>;
+
+export class LayerBuilder {
+  /**
+   * 作为段落边界的块级元素
+   */
+  private static readonly BLOCK_TAGS = new Set([
+    'p', 'div', 'section', 'article', 'header', 'footer', 'aside', 'nav', 'main',
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'li', 'ul', 'ol', 'dl', 'dt', 'dd',
+    'blockquote', 'pre', 'table', 'tr', 'td', 'th', 'caption',
+    'figure', 'figcaption', 'hr', 'body', 'center'
+  ]);
+
+  /**
+   * 不包含正文的元素
+   */
+  private static readonly SKIP_TAGS = new Set(['head', 'script', 'style', 'title', 'noscript', 'template']);
+
+  private layers: ContentLayer[] = [];
+  private pending: string[] = [];
+  private nextIndex = 0;
+
+  /**
+   * 追加一个段落（空白段落会被忽略）
+   */
+  addParagraph(text: string): void {
+    const trimmed = text.trim();
+    if (trimmed) {
+      this.pending.push(trimmed);
+    }
+  }
+
+  /**
+   * 追加一张图片
+   * 当前累积的段落连同图片生成 layer；没有段落时生成纯图片 layer
+   *
+   * @param size - 图片字节数（可选，供缓存估算内存占用）
+   */
+  addImage(url: string, size?: number): void {
+    this.flush(url, size);
+  }
+
+  /**
+   * 完成构建，返回 layer 数组
+   */
+  build(): ContentLayer[] {
+    this.flush();
+    return this.layers;
+  }
+
+  /**
+   * 将累积段落写入 layers，图片附加在最后一块之后
+   */
+  private flush(image?: string, imageSize?: number): void {
+    if (this.pending.length === 0) {
+      if (image) {
+        this.layers.push({ paragraphs: [], startIndex: this.nextIndex, image, imageSize });
+        this.nextIndex += 1;
+      }
+      return;
+    }
+
+    const chunks = TxtAdapter.chunkParagraphs(this.pending, this.nextIndex);
+    const last = chunks[chunks.length - 1];
+    last.image = image;
+    if (imageSize !== undefined) {
+      last.imageSize = imageSize;
+    }
+
+    this.layers.push(...chunks);
+    this.nextIndex = last.startIndex + last.paragraphs.length + (image ? 1 : 0);
+    this.pending = [];
+  }
+
+  /**
+   * 复制文档中 start 到 end 之间的节点（含 start，不含 end），用于把一个文件切分为多个章节
+   * 边界元素可能嵌套在 article / div / p 中，边界节点的祖先只复制外壳，保持文档顺序
+   *
+   * @param start - 起始元素，null 表示从 body 开头开始
+   * @param end - 结束元素，null 表示到文档末尾
+   */
+  static extractRange(document: Document, start: Element | null, end: Element | null): Element {
+    let inside = start === null;
+
+    // 返回 true 表示已到达结束元素
+    const copy = (source: Node, target: Node): boolean => {
+      for (const child of Array.from(source.childNodes)) {
+        if (child === end) return true;
+        if (child === start) inside = true;
+
+        const isBoundaryAncestor = child !== start
+          && ((start && child.contains(start)) || (end && child.contains(end)));
+        if (isBoundaryAncestor) {
+          const shell = child.cloneNode(false);
+          const reachedEnd = copy(child, shell);
+          if (inside) target.appendChild(shell);
+          if (reachedEnd) return true;
+        } else if (inside) {
+          target.appendChild(child.cloneNode(true));
+        }
+      }
+      return false;
+    };
+
+    const wrapper = document.createElement('div');
+    copy(document.body, wrapper);
+    return wrapper;
+  }
+
+  /**
+   * 将 HTML/XHTML DOM 树转换为 ContentLayer 数组
+   * 块级元素和 <br> 作为段落边界，行内元素的文本合并到同一段落
+   *
+   * @param root - 根元素（通常是 body）
+   * @param resolveImage - 图片解析回调
+   * @param signal - 取消时停止遍历，返回已生成的部分（由调用方通过 discardIfAborted 释放）
+   */
+  static async fromDOM(root: Element, resolveImage: ImageResolver, signal?: AbortSignal): Promise<ContentLayer[]> {
+    const builder = new LayerBuilder();
+    let buffer = '';
+
+    const flushText = () => {
+      const text = buffer.replace(/\s+/g, ' ').trim();
+      if (text) {
+        builder.addParagraph(text);
+      }
+      buffer = '';
+    };
+
+    const walk = async (node: Node): Promise<void> => {
+      for (const child of Array.from(node.childNodes)) {
+        if (signal?.aborted) return;
+        if (child.nodeType === 3) {
+          buffer += child.textContent || '';
+          continue;
+        }
+        if (child.nodeType !== 1) continue;
+
+        const element = child as Element;
+        const tagName = element.localName.toLowerCase();
+
+        if (this.SKIP_TAGS.has(tagName)) continue;
+
+        if (tagName === 'img' || tagName === 'image') {
+          flushText();
+          const blob = await resolveImage(element);
+          if (blob) {
+            builder.addImage(URL.createObjectURL(blob), blob.size);
+          }
+        } else if (tagName === 'br') {
+          flushText();
+        } else if (this.BLOCK_TAGS.has(tagName)) {
+          flushText();
+          await walk(element);
+          flushText();
+        } else {
+          await walk(element);
+        }
+      }
+    };
+
+    await walk(root);
+    flushText();
+
+    return builder.build();
+  }
+
+  /**
+   * 章节加载已取消时释放本次创建的图片 Blob URL，并抛出取消原因（AbortError）
+   */
+  static discardIfAborted(layers: ContentLayer[], signal?: AbortSignal): void {
+    if (!signal?.aborted) return;
+
+    this.revokeImages(layers);
+    signal.throwIfAborted();
+  }
+
+  /**
+   * 释放 layers 中的图片 Blob URL
+   */
+  static revokeImages(layers: ContentLayer[]): void {
+    for (const layer of layers) {
+      if (layer.image && layer.image.startsWith('blob:')) {
+        URL.revokeObjectURL(layer.image);
+      }
+    }
+  }
+}
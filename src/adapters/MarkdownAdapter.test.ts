@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { MarkdownAdapter } from './MarkdownAdapter';
+
+const SAMPLE = `---
+title: "读书笔记"
+author: 张三
+lang: zh
+---
+
+开头的说明。
+
+## 第一章
+
+第一段。
+
+- 列表一
+- 列表二
+
+> 引用内容
+
+### 小节
+
+小节内容。
+
+## 第二章
+
+第二章内容。
+`;
+
+function toBuffer(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+describe('MarkdownAdapter', () => {
+  it('should read front matter metadata', async () => {
+    const book = await MarkdownAdapter.parse(toBuffer(SAMPLE), 'notes.md');
+
+    expect(book.title).toBe('读书笔记');
+    expect(book.author).toBe('张三');
+    expect(book.language).toBe('zh');
+    expect(book.format).toBe('markdown');
+  });
+
+  it('should split chapters on headings up to the configured level', async () => {
+    const book = await MarkdownAdapter.parse(toBuffer(SAMPLE), 'notes.md');
+    expect(book.chapters.map(c => c.title)).toEqual(['前言', '第一章', '第二章']);
+
+    const layers = await MarkdownAdapter.loadChapter(book, 1);
+    expect(layers).toEqual([{
+      paragraphs: ['第一章', '第一段。', '列表一', '列表二', '引用内容', '小节', '小节内容。'],
+      startIndex: 0,
+      image: undefined
+    }]);
+  });
+
+  it('should use h1 as title and fall back to a single chapter', async () => {
+    const book = await MarkdownAdapter.parse(toBuffer('# 标题\n\n只有正文。\n'), 'plain.md');
+
+    expect(book.title).toBe('标题');
+    expect(book.chapters.map(c => c.title)).toEqual(['全文']);
+  });
+
+  it('should load relative images from a TextPack bundle', async () => {
+    const zip = new JSZip();
+    zip.file('doc.textpack/text.md', '## 图片\n\n![图](assets/a.png)\n\n![远程](https://example.com/b.png)\n');
+    zip.file('doc.textpack/assets/a.png', new Uint8Array([0x89, 0x50, 0x4e, 0x47]));
+    const buffer = await zip.generateAsync({ type: 'arraybuffer' });
+
+    const book = await MarkdownAdapter.parse(buffer, 'doc.textpack');
+    expect(book.cover?.type).toBe('image/png');
+
+    const layers = await MarkdownAdapter.loadChapter(book, 0);
+    expect(layers).toHaveLength(1);
+    expect(layers[0].paragraphs).toEqual(['图片']);
+    expect(layers[0].image).toMatch(/^blob:/);
+  });
+});
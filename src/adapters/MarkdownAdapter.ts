@@ -0,0 +1,81 @@
+/**
+ * Markdown 格式适配器
+ * 先用 marked 渲染为 HTML，分章、图片和分块规则与 HtmlAdapter 相同
+ *
+ * 元数据来自文件开头的 YAML front matter（title / author / description / lang），
+ * 缺失时使用唯一的一级标题或文件名作为书名；
+ * TextPack（.textpack）压缩包中的 assets/ 图片按相对路径读取
+ */
+
+import { marked } from 'marked';
+import { HtmlAdapter } from './HtmlAdapter';
+
+export class MarkdownAdapter extends HtmlAdapter {
+  /**
+   * FormatAdapter 元信息
+   */
+  static readonly format: string = 'markdown';
+  static readonly label: string = 'Markdown';
+  static readonly version: number = 1;
+  static readonly extensions: readonly string[] = ['.md', '.markdown', '.textpack'];
+
+  protected static readonly logTag: string = '[MarkdownAdapter]';
+
+  /**
+   * YAML front matter：文件开头两行 --- 之间的内容
+   */
+  private static readonly FRONT_MATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+  /**
+   * Markdown 没有魔数，只按扩展名识别
+   */
+  static sniff(): boolean {
+    return false;
+  }
+
+  /**
+   * 渲染 Markdown，front matter 转为 <meta> 供元数据提取
+   */
+  protected static toHTML(source: string): string {
+    let markdown = source;
+    const metas: string[] = [];
+
+    const match = source.match(this.FRONT_MATTER_REGEX);
+    if (match) {
+      markdown = source.slice(match[0].length);
+      for (const line of match[1].split(/\r?\n/)) {
+        const field = line.match(/^(\w+)\s*:\s*(.+)$/);
+        if (!field) continue;
+        const name = field[1].toLowerCase() === 'lang' ? 'language' : field[1].toLowerCase();
+        const value = field[2].trim().replace(/^(["'])(.*)\1$/, '$2');
+        metas.push(`<meta name="${name}" content="${this.escapeAttribute(value)}">`);
+      }
+    }
+
+    const body = marked.parse(markdown, { async: false });
+    return `<!DOCTYPE html><html><head>${metas.join('')}</head><body>${body}</body></html>`;
+  }
+
+  /**
+   * 元数据：front matter 优先，语言从 language 字段读取
+   */
+  protected static extractMetadata(document: Document) {
+    const metadata = super.extractMetadata(document);
+    const language = document.querySelector('meta[name="language"]')?.getAttribute('content') || undefined;
+    return { ...metadata, language };
+  }
+
+  /**
+   * TextPack 中的正文文件（text.md / text.markdown）
+   */
+  protected static isSourceFile(path: string): boolean {
+    return /\.(md|markdown)$/i.test(path);
+  }
+
+  /**
+   * 转义 HTML 属性值
+   */
+  private static escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+  }
+}
@@ -0,0 +1,219 @@
+import { describe, it, expect } from 'vitest';
+import { MobiAdapter } from './MobiAdapter';
+
+/**
+ * HUFF/CDIC 压缩的正文记录及其码表、字典记录
+ */
+interface HuffCdicFixture {
+  text: Uint8Array;
+  records: Uint8Array[];
+}
+
+/**
+ * 构造一个最小的 HUFF/CDIC 码表：所有码长为 8，字节 b 对应字典项 255 - b
+ * 字典项为字符串时是解压好的短语，为字节数组时是仍需按同一码表解压的短语
+ */
+function buildHuffCdic(phrases: Array<string | Uint8Array>, codes: number[]): HuffCdicFixture {
+  const huff = new Uint8Array(24 + 256 * 4 + 32 * 8);
+  const hv = new DataView(huff.buffer);
+  huff.set(new TextEncoder().encode('HUFF'), 0);
+  hv.setUint32(4, 24);
+  hv.setUint32(8, 24);                // 一级码表
+  hv.setUint32(12, 24 + 256 * 4);     // 各码长的最小 / 最大码（全部终止于一级码表，不会用到）
+  for (let i = 0; i < 256; i++) {
+    hv.setUint32(24 + i * 4, (0xff << 8) | 0x80 | 8);
+  }
+
+  const entries = phrases.map(p => typeof p === 'string' ? new TextEncoder().encode(p) : p);
+  const dataStart = entries.length * 2;
+  const size = dataStart + entries.reduce((sum, e) => sum + 2 + e.length, 0);
+  const cdic = new Uint8Array(16 + size);
+  const cv = new DataView(cdic.buffer);
+  cdic.set(new TextEncoder().encode('CDIC'), 0);
+  cv.setUint32(4, 16);
+  cv.setUint32(8, entries.length);
+  cv.setUint32(12, Math.ceil(Math.log2(entries.length)));
+  let offset = dataStart;
+  entries.forEach((entry, i) => {
+    cv.setUint16(16 + i * 2, offset);
+    cv.setUint16(16 + offset, entry.length | (typeof phrases[i] === 'string' ? 0x8000 : 0));
+    cdic.set(entry, 18 + offset);
+    offset += 2 + entry.length;
+  });
+
+  return { text: new Uint8Array(codes), records: [huff, cdic] };
+}
+
+/**
+ * 测试文件的可选内容
+ */
+interface MobiFixtureOptions {
+  image?: Uint8Array;
+  huffCdic?: HuffCdicFixture;
+  flows?: string[];     // 设置时生成 KF8 文件：正文为 html + 这些 flow（如 CSS），范围记录在 FDST 中
+}
+
+/**
+ * 构造一个最小的 MOBI 文件（默认不压缩）
+ * 记录 0：PalmDOC 头 + MOBI 头 + EXTH；记录 1：正文；记录 2：图片；之后为 HUFF/CDIC 记录和 FDST 记录
+ */
+function buildMobi(html: string, author: string, options: MobiFixtureOptions = {}): ArrayBuffer {
+  const { image, huffCdic, flows } = options;
+  const encoder = new TextEncoder();
+  const flowBytes = [html, ...(flows ?? [])].map(flow => encoder.encode(flow));
+  const fullText = encoder.encode([html, ...(flows ?? [])].join(''));
+  const text = huffCdic?.text ?? fullText;
+  const authorBytes = encoder.encode(author);
+  const fullName = encoder.encode('Mobi Title');
+
+  const mobiHeaderLength = 0xe8;
+  const exthLength = 12 + 8 + authorBytes.length;
+  const nameOffset = 16 + mobiHeaderLength + exthLength;
+  const record0 = new Uint8Array(nameOffset + fullName.length + 2);
+  const v0 = new DataView(record0.buffer);
+
+  v0.setUint16(0, huffCdic ? 17480 : 1); // HUFF/CDIC 或无压缩
+  v0.setUint32(4, fullText.length);
+  v0.setUint16(8, 1);                 // 1 条正文记录
+  v0.setUint16(10, 4096);
+  record0.set(encoder.encode('MOBI'), 16);
+  v0.setUint32(20, mobiHeaderLength);
+  v0.setUint32(28, 65001);            // UTF-8
+  v0.setUint32(36, flows ? 8 : 6);    // KF8 或 MOBI7
+  v0.setUint32(84, nameOffset);
+  v0.setUint32(88, fullName.length);
+  v0.setUint32(108, image ? 2 : 0xffffffff);
+  v0.setUint32(128, 0x40);            // 含 EXTH
+
+  const exthStart = 16 + mobiHeaderLength;
+  record0.set(encoder.encode('EXTH'), exthStart);
+  v0.setUint32(exthStart + 4, exthLength);
+  v0.setUint32(exthStart + 8, 1);
+  v0.setUint32(exthStart + 12, 100);  // 作者
+  v0.setUint32(exthStart + 16, 8 + authorBytes.length);
+  record0.set(authorBytes, exthStart + 20);
+  record0.set(fullName, nameOffset);
+
+  const records = [record0, text, ...(image ? [image] : [])];
+  if (huffCdic) {
+    v0.setUint32(112, records.length);
+    v0.setUint32(116, huffCdic.records.length);
+    records.push(...huffCdic.records);
+  }
+  if (flows) {
+    const fdst = new Uint8Array(12 + flowBytes.length * 8);
+    const fv = new DataView(fdst.buffer);
+    fdst.set(encoder.encode('FDST'), 0);
+    fv.setUint32(4, 12);
+    fv.setUint32(8, flowBytes.length);
+    let start = 0;
+    flowBytes.forEach((flow, i) => {
+      fv.setUint32(12 + i * 8, start);
+      fv.setUint32(16 + i * 8, start + flow.length);
+      start += flow.length;
+    });
+    v0.setUint32(0xc0, records.length);
+    v0.setUint32(0xc4, flowBytes.length);
+    records.push(fdst);
+  }
+  const headerSize = 78 + records.length * 8 + 2;
+  const total = headerSize + records.reduce((sum, r) => sum + r.length, 0);
+  const file = new Uint8Array(total);
+  const view = new DataView(file.buffer);
+
+  file.set(encoder.encode('test'), 0);
+  file.set(encoder.encode('BOOKMOBI'), 60);
+  view.setUint16(76, records.length);
+
+  let offset = headerSize;
+  records.forEach((record, i) => {
+    view.setUint32(78 + i * 8, offset);
+    file.set(record, offset);
+    offset += record.length;
+  });
+
+  return file.buffer;
+}
+
+describe('MobiAdapter', () => {
+  describe('PalmDOC Decompression', () => {
+    it('should decode literals, space pairs and back references', () => {
+      // "abc" + 回溯(距离 3, 长度 6) + " A"
+      const compressed = new Uint8Array([0x61, 0x62, 0x63, 0x80, 0x1b, 0xc1]);
+      const result = new TextDecoder().decode(MobiAdapter.decompressPalmDoc(compressed));
+      expect(result).toBe('abcabcabc A');
+    });
+
+    it('should copy raw byte runs', () => {
+      const compressed = new Uint8Array([0x02, 0xe4, 0xb8, 0x41]);
+      const result = MobiAdapter.decompressPalmDoc(compressed);
+      expect(Array.from(result)).toEqual([0xe4, 0xb8, 0x41]);
+    });
+  });
+
+  describe('Parsing', () => {
+    it('should sniff the BOOKMOBI signature', () => {
+      const buffer = buildMobi('<p>x</p>', 'A');
+      expect(MobiAdapter.sniff(new Uint8Array(buffer, 0, 128))).toBe(true);
+      expect(MobiAdapter.sniff(new Uint8Array(128))).toBe(false);
+    });
+
+    it('should read metadata and split chapters on page breaks', async () => {
+      const html = '<html><body><h2>第一章</h2><p>内容一</p><mbp:pagebreak/>'
+        + '<h2>第二章</h2><p>内容二</p><p>内容三</p></body></html>';
+      const book = await MobiAdapter.parse(buildMobi(html, '作者甲'), 'test.mobi');
+
+      expect(book.title).toBe('Mobi Title');
+      expect(book.author).toBe('作者甲');
+      expect(book.format).toBe('mobi');
+      expect(book.chapters.map(c => c.title)).toEqual(['第一章', '第二章']);
+
+      const layers = await MobiAdapter.loadChapter(book, 1);
+      expect(layers).toEqual([{ paragraphs: ['第二章', '内容二', '内容三'], startIndex: 0, image: undefined }]);
+    });
+
+    it('should turn recindex images into blob layers', async () => {
+      const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+      const html = '<body><p>前文</p><img recindex="00001"/><p>后文</p></body>';
+      const book = await MobiAdapter.parse(buildMobi(html, 'A', { image: png }), 'img.mobi');
+
+      const layers = await MobiAdapter.loadChapter(book, 0);
+      expect(layers).toHaveLength(2);
+      expect(layers[0].paragraphs).toEqual(['前文']);
+      expect(layers[0].image).toMatch(/^blob:/);
+      expect(layers[1]).toEqual({ paragraphs: ['后文'], startIndex: 2, image: undefined });
+    });
+
+    it('should decompress HUFF/CDIC text, including phrases that are themselves compressed', async () => {
+      const html = '<html><body><p>Huffman coded</p></body></html>';
+      // 字典项 4 由字典项 1、3 组成；正文为字典项 0、4、2
+      const huffCdic = buildHuffCdic(
+        ['<html><body><p>', 'Huffman ', '</p></body></html>', 'coded', new Uint8Array([0xfe, 0xfc])],
+        [0xff, 0xfb, 0xfd]
+      );
+      const book = await MobiAdapter.parse(buildMobi(html, 'A', { huffCdic }), 'huff.azw');
+
+      const layers = await MobiAdapter.loadChapter(book, 0);
+      expect(layers).toEqual([{ paragraphs: ['Huffman coded'], startIndex: 0, image: undefined }]);
+    });
+
+    it('should keep only the XHTML flow of KF8 files and split it into files', async () => {
+      const html = '<?xml version="1.0"?><html><head><title>t</title></head><body><h1>One</h1><p>First</p></body></html>'
+        + '<?xml version="1.0"?><html><head><title>t</title></head><body><h1>Two</h1><p>Last</p></body></html>';
+      const css = 'p { margin: 0; } h1 { font-size: 2em; }';
+      const book = await MobiAdapter.parse(buildMobi(html, 'A', { flows: [css] }), 'kf8.azw3');
+
+      expect(book.chapters.map(c => c.title)).toEqual(['One', 'Two']);
+      const layers = await MobiAdapter.loadChapter(book, 1);
+      expect(layers).toEqual([{ paragraphs: ['Two', 'Last'], startIndex: 0, image: undefined }]);
+    });
+
+    it('should reject encrypted files', async () => {
+      const buffer = buildMobi('<p>x</p>', 'A');
+      const view = new DataView(buffer);
+      view.setUint16(view.getUint32(78) + 12, 2);
+
+      await expect(MobiAdapter.parse(buffer, 'drm.azw')).rejects.toThrow('DRM');
+    });
+  });
+});
@@ -0,0 +1,735 @@
+/**
+ * MOBI / AZW3 格式适配器
+ * 将未加密的 Kindle 格式文件转换为统一的 UnifiedBook 结构
+ *
+ * 文件结构：
+ * - PalmDB 头：记录表（每条记录的偏移）
+ * - 记录 0：PalmDOC 头 + MOBI 头 + EXTH 元数据
+ * - 记录 1..N：压缩的正文（PalmDOC LZ77 或 HUFF/CDIC）
+ * - 图片记录：从 firstImageIndex 开始
+ *
+ * 正文解压后是 HTML：MOBI7 以 <mbp:pagebreak/> 分章，
+ * KF8（AZW3）由多个 XHTML 文件（skeleton + fragments）顺序拼接而成，按文件分章；
+ * KF8 解压后的数据按 FDST 记录分为多个 flow，只有 flow 0 是 XHTML，之后的 CSS、SVG 等 flow 丢弃
+ *
+ * 已知限制（KF8）：
+ * - 不读取 SKEL / FRAG 索引：fragment 保持在正文中的顺序接在 skeleton 之后，
+ *   不按插入位置放回 skeleton，依赖嵌套结构的排版（如 fragment 在表格或列表内）可能错位
+ * - 不解析 kindle:pos:fid 内部链接，链接只保留文字
+ */
+
+import type { UnifiedBook, UnifiedChapter, ContentLayer } from '@/types/book';
+import { LayerBuilder } from './LayerBuilder';
+
+/**
+ * PalmDB 记录位置
+ */
+interface PalmRecord {
+  offset: number;
+  end: number;
+}
+
+/**
+ * 记录 0 中解析出的头信息
+ */
+interface MobiHeader {
+  compression: number;              // 1: 无压缩, 2: PalmDOC, 17480: HUFF/CDIC
+  textLength: number;               // 解压后正文字节数
+  textRecordCount: number;          // 正文记录数
+  encryption: number;               // 0: 未加密
+  version: number;                  // MOBI 版本，>= 8 为 KF8
+  encoding: string;                 // TextDecoder 编码标签
+  fullName: string;                 // 书名
+  firstImageIndex: number;          // 第一条图片记录的索引
+  huffRecordOffset: number;         // HUFF 记录索引
+  huffRecordCount: number;          // HUFF + CDIC 记录数
+  fdstIndex: number;                // KF8 FDST 记录索引（各 flow 在正文中的范围）
+  extraDataFlags: number;           // 正文记录尾部附加数据标志
+  exth: Map<number, Uint8Array[]>;  // EXTH 元数据（类型 → 数据）
+}
+
+/**
+ * 解压后的正文，按书缓存，避免每章重复解压
+ */
+interface MobiContent {
+  header: MobiHeader;
+  records: PalmRecord[];
+  parts: string[];
+}
+
+/**
+ * EXTH 记录类型
+ */
+const EXTH_AUTHOR = 100;
+const EXTH_COVER_OFFSET = 201;
+const EXTH_THUMB_OFFSET = 202;
+const EXTH_UPDATED_TITLE = 503;
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_PALMDOC = 2;
+const COMPRESSION_HUFF = 17480;
+
+/**
+ * HUFF/CDIC 解压器
+ * 参考 MobiPocket 格式规范：HUFF 记录存放码表，CDIC 记录存放短语字典
+ */
+class HuffCdicReader {
+  private dict1: Array<[number, boolean, number]> = [];
+  private mincode: number[] = [0];
+  private maxcode: number[] = [0];
+  private dictionary: Array<[Uint8Array, boolean] | null> = [];
+
+  constructor(huff: Uint8Array, cdics: Uint8Array[]) {
+    this.loadHuff(huff);
+    for (const cdic of cdics) {
+      this.loadCdic(cdic);
+    }
+  }
+
+  private loadHuff(huff: Uint8Array): void {
+    if (readAscii(huff, 0, 4) !== 'HUFF') {
+      throw new Error('无效的 HUFF 记录');
+    }
+    const view = new DataView(huff.buffer, huff.byteOffset, huff.byteLength);
+    const cacheOffset = view.getUint32(8);
+    const baseOffset = view.getUint32(12);
+
+    for (let i = 0; i < 256; i++) {
+      const v = view.getUint32(cacheOffset + i * 4);
+      const codeLength = v & 0x1f;
+      if (codeLength === 0) {
+        throw new Error('无效的 HUFF 码表');
+      }
+      const maxcode = ((v >>> 8) + 1) * 2 ** (32 - codeLength) - 1;
+      this.dict1.push([codeLength, (v & 0x80) !== 0, maxcode]);
+    }
+
+    for (let codeLength = 1; codeLength <= 32; codeLength++) {
+      const low = view.getUint32(baseOffset + (codeLength - 1) * 8);
+      const high = view.getUint32(baseOffset + (codeLength - 1) * 8 + 4);
+      this.mincode[codeLength] = low * 2 ** (32 - codeLength);
+      this.maxcode[codeLength] = (high + 1) * 2 ** (32 - codeLength) - 1;
+    }
+  }
+
+  private loadCdic(cdic: Uint8Array): void {
+    if (readAscii(cdic, 0, 4) !== 'CDIC') {
+      throw new Error('无效的 CDIC 记录');
+    }
+    const view = new DataView(cdic.buffer, cdic.byteOffset, cdic.byteLength);
+    const phrases = view.getUint32(8);
+    const bits = view.getUint32(12);
+    const count = Math.min(2 ** bits, phrases - this.dictionary.length);
+
+    for (let i = 0; i < count; i++) {
+      const offset = view.getUint16(16 + i * 2);
+      const blen = view.getUint16(16 + offset);
+      const slice = cdic.subarray(18 + offset, 18 + offset + (blen & 0x7fff));
+      this.dictionary.push([slice, (blen & 0x8000) !== 0]);
+    }
+  }
+
+  unpack(data: Uint8Array): Uint8Array {
+    let bitsLeft = data.length * 8;
+    const padded = new Uint8Array(data.length + 8);
+    padded.set(data);
+    const view = new DataView(padded.buffer);
+
+    let pos = 0;
+    let high = view.getUint32(0);
+    let low = view.getUint32(4);
+    let n = 32;
+    const output: Uint8Array[] = [];
+
+    while (true) {
+      if (n <= 0) {
+        pos += 4;
+        if (pos + 8 > padded.length) break;
+        high = view.getUint32(pos);
+        low = view.getUint32(pos + 4);
+        n += 32;
+      }
+
+      // 取 64 位缓冲区中 [n, n + 32) 的 32 位
+      const code = n === 32 ? high : ((high << (32 - n)) | (low >>> n)) >>> 0;
+      let [codeLength, term, maxcode] = this.dict1[code >>> 24];
+      if (!term) {
+        while (code < this.mincode[codeLength]) {
+          codeLength++;
+        }
+        maxcode = this.maxcode[codeLength];
+      }
+
+      n -= codeLength;
+      bitsLeft -= codeLength;
+      if (bitsLeft < 0) break;
+
+      const r = Math.floor((maxcode - code) / 2 ** (32 - codeLength));
+      const entry = this.dictionary[r];
+      if (!entry) {
+        throw new Error('HUFF 字典项缺失');
+      }
+
+      let [slice, decompressed] = entry;
+      if (!decompressed) {
+        // 递归解压短语（先置空防止循环引用）
+        this.dictionary[r] = null;
+        slice = this.unpack(slice);
+        this.dictionary[r] = [slice, true];
+      }
+      output.push(slice);
+    }
+
+    return concatBytes(output);
+  }
+}
+
+/**
+ * 读取 ASCII 字符串
+ */
+function readAscii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+/**
+ * 拼接多个字节数组
+ */
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((sum, c) => sum + c.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+export class MobiAdapter {
+  /**
+   * FormatAdapter 元信息
+   */
+  static readonly format = 'mobi';
+  static readonly label = 'MOBI/AZW3';
+  static readonly version = 2;
+  static readonly extensions = ['.mobi', '.azw', '.azw3'];
+
+  /**
+   * 已解压正文缓存（以原始数据为键，书籍关闭时由 dispose 释放）
+   */
+  private static contentCache: WeakMap<ArrayBuffer, MobiContent> = new WeakMap();
+
+  /**
+   * 魔数检测：PalmDB 头偏移 60 处的 type/creator 为 "BOOKMOBI"
+   */
+  static sniff(header: Uint8Array): boolean {
+    return header.length >= 68 && readAscii(header, 60, 8) === 'BOOKMOBI';
+  }
+
+  /**
+   * 解析 MOBI/AZW3 文件为 UnifiedBook
+   */
+  static async parse(
+    arrayBuffer: ArrayBuffer,
+    filename: string
+  ): Promise<UnifiedBook> {
+    console.log('[MobiAdapter] 开始解析 MOBI 文件:', filename);
+
+    // 1. 解析记录表和头信息，解压正文
+    const content = this.readContent(arrayBuffer);
+    this.contentCache.set(arrayBuffer, content);
+    const { header } = content;
+
+    // 2. 提取元数据
+    const bytes = new Uint8Array(arrayBuffer);
+    const pdbName = readAscii(bytes, 0, 32).replace(/\0.*$/, '');
+    const title = this.getExthString(header, EXTH_UPDATED_TITLE)
+      || header.fullName
+      || pdbName
+      || filename.replace(/\.(mobi|azw3?)$/i, '');
+    const authors = (header.exth.get(EXTH_AUTHOR) || []).map(d => this.decodeString(header, d).trim()).filter(Boolean);
+    const author = authors.length > 0 ? authors.join(' & ') : 'Unknown';
+
+    console.log('[MobiAdapter] 书籍信息:', { title, author, version: header.version });
+
+    // 3. 提取封面
+    const cover = this.extractCover(content, arrayBuffer);
+
+    // 4. 生成目录（懒加载，不解析内容）
+    const chapters: UnifiedChapter[] = content.parts.map((part, i) => ({
+      id: i,
+      title: this.extractPartTitle(part) || `Chapter ${i + 1}`,
+      layers: [],
+      isLoaded: false
+    }));
+    console.log('[MobiAdapter] 检测到章节数:', chapters.length);
+
+    // 5. 构建 UnifiedBook
+    const book: UnifiedBook = {
+      title,
+      author,
+      cover,
+      format: 'mobi',
+      chapters,
+      rawData: arrayBuffer,
+      addTime: Date.now()
+    };
+
+    return book;
+  }
+
+  /**
+   * 懒加载：解析指定章节的内容
+   * 将章节 HTML 转换为 ContentLayer 数组，内嵌图片转为 Blob URL
+   */
+  static async loadChapter(
+    book: UnifiedBook,
+    chapterId: number,
+    signal?: AbortSignal
+  ): Promise<ContentLayer[]> {
+    console.log('[MobiAdapter] 懒加载章节:', chapterId);
+
+    const chapter = book.chapters[chapterId];
+    if (!chapter) {
+      throw new Error(`章节 ${chapterId} 不存在`);
+    }
+
+    // 如果已加载，直接返回
+    if (chapter.isLoaded && chapter.layers.length > 0) {
+      console.log('[MobiAdapter] 章节已缓存，直接返回');
+      return chapter.layers;
+    }
+
+    try {
+      const content = this.getContent(book.rawData);
+      const part = content.parts[chapterId] ?? '';
+
+      const document = new DOMParser().parseFromString(part, 'text/html');
+      const layers = await LayerBuilder.fromDOM(
+        document.body,
+        async element => this.resolveImage(element, content, book.rawData),
+        signal
+      );
+      LayerBuilder.discardIfAborted(layers, signal);
+
+      if (layers.length === 0) {
+        return [{
+          paragraphs: [`章节 "${chapter.title}" 内容为空`],
+          startIndex: 0
+        }];
+      }
+
+      console.log('[MobiAdapter] 章节解析完成，layers 数:', layers.length);
+      return layers;
+    } catch (error) {
+      // 取消不是加载失败，不生成错误提示
+      signal?.throwIfAborted();
+
+      console.error('[MobiAdapter] 章节加载失败:', {
+        chapterId,
+        title: chapter.title,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      return [{
+        paragraphs: [
+          `章节 "${chapter.title}" 加载失败`,
+          `错误信息: ${error instanceof Error ? error.message : String(error)}`
+        ],
+        startIndex: 0
+      }];
+    }
+  }
+
+  /**
+   * 释放已解压的正文缓存
+   */
+  static dispose(book: UnifiedBook): void {
+    this.contentCache.delete(book.rawData);
+  }
+
+  /**
+   * 获取已解压正文（缓存未命中时重新解压）
+   */
+  private static getContent(arrayBuffer: ArrayBuffer): MobiContent {
+    let content = this.contentCache.get(arrayBuffer);
+    if (!content) {
+      content = this.readContent(arrayBuffer);
+      this.contentCache.set(arrayBuffer, content);
+    }
+    return content;
+  }
+
+  /**
+   * 读取 PalmDB 记录表、头信息，并解压正文拆分为章节
+   */
+  private static readContent(arrayBuffer: ArrayBuffer): MobiContent {
+    const records = this.readRecords(arrayBuffer);
+    if (records.length < 2) {
+      throw new Error('MOBI 文件结构无效');
+    }
+
+    const header = this.readHeader(this.getRecord(arrayBuffer, records, 0));
+    if (header.encryption !== 0) {
+      throw new Error('不支持加密（DRM）的 MOBI/AZW3 文件');
+    }
+
+    const text = this.readText(arrayBuffer, records, header);
+    console.log('[MobiAdapter] 正文长度:', text.length, '字符');
+
+    let parts = this.splitParts(text, header.version >= 8);
+    if (parts.length === 0) {
+      parts = [text];
+    }
+
+    return { header, records, parts };
+  }
+
+  /**
+   * 解析 PalmDB 记录表
+   */
+  private static readRecords(arrayBuffer: ArrayBuffer): PalmRecord[] {
+    const view = new DataView(arrayBuffer);
+    if (arrayBuffer.byteLength < 78) {
+      throw new Error('MOBI 文件过小');
+    }
+
+    const count = view.getUint16(76);
+    const offsets: number[] = [];
+    for (let i = 0; i < count; i++) {
+      offsets.push(view.getUint32(78 + i * 8));
+    }
+
+    return offsets.map((offset, i) => ({
+      offset,
+      end: i + 1 < offsets.length ? offsets[i + 1] : arrayBuffer.byteLength
+    }));
+  }
+
+  /**
+   * 获取记录数据
+   */
+  private static getRecord(arrayBuffer: ArrayBuffer, records: PalmRecord[], index: number): Uint8Array {
+    const record = records[index];
+    if (!record) {
+      throw new Error(`记录 ${index} 不存在`);
+    }
+    return new Uint8Array(arrayBuffer, record.offset, Math.max(0, record.end - record.offset));
+  }
+
+  /**
+   * 解析记录 0：PalmDOC 头、MOBI 头、EXTH
+   */
+  private static readHeader(record0: Uint8Array): MobiHeader {
+    const view = new DataView(record0.buffer, record0.byteOffset, record0.byteLength);
+
+    const header: MobiHeader = {
+      compression: view.getUint16(0),
+      textLength: view.getUint32(4),
+      textRecordCount: view.getUint16(8),
+      encryption: view.getUint16(12),
+      version: 0,
+      encoding: 'windows-1252',
+      fullName: '',
+      firstImageIndex: 0xffffffff,
+      huffRecordOffset: 0,
+      huffRecordCount: 0,
+      fdstIndex: 0xffffffff,
+      extraDataFlags: 0,
+      exth: new Map()
+    };
+
+    // 纯 PalmDOC 文件没有 MOBI 头
+    if (record0.length < 24 || readAscii(record0, 16, 4) !== 'MOBI') {
+      return header;
+    }
+
+    const headerLength = view.getUint32(20);
+    header.encoding = view.getUint32(28) === 65001 ? 'utf-8' : 'windows-1252';
+    header.version = view.getUint32(36);
+    header.firstImageIndex = view.getUint32(108);
+    header.huffRecordOffset = view.getUint32(112);
+    header.huffRecordCount = view.getUint32(116);
+
+    // MOBI7 在同一位置存放的是正文记录范围，只有 KF8 是 FDST 索引
+    if (header.version >= 8 && headerLength >= 0xb4 && record0.length >= 0xc4) {
+      header.fdstIndex = view.getUint32(0xc0);
+    }
+
+    if (headerLength >= 0xe4 && record0.length >= 0xf4) {
+      header.extraDataFlags = view.getUint16(0xf2);
+    }
+
+    // EXTH 元数据
+    const exthFlags = view.getUint32(128);
+    const exthStart = 16 + headerLength;
+    if ((exthFlags & 0x40) && readAscii(record0, exthStart, 4) === 'EXTH') {
+      const count = view.getUint32(exthStart + 8);
+      let pos = exthStart + 12;
+      for (let i = 0; i < count && pos + 8 <= record0.length; i++) {
+        const type = view.getUint32(pos);
+        const length = view.getUint32(pos + 4);
+        if (length < 8) break;
+        const data = record0.subarray(pos + 8, pos + length);
+        const list = header.exth.get(type) || [];
+        list.push(data);
+        header.exth.set(type, list);
+        pos += length;
+      }
+    }
+
+    // 书名
+    const nameOffset = view.getUint32(84);
+    const nameLength = view.getUint32(88);
+    if (nameOffset + nameLength <= record0.length) {
+      header.fullName = this.decodeString(header, record0.subarray(nameOffset, nameOffset + nameLength)).trim();
+    }
+
+    return header;
+  }
+
+  /**
+   * 解压并解码全部正文记录
+   */
+  private static readText(arrayBuffer: ArrayBuffer, records: PalmRecord[], header: MobiHeader): string {
+    let huffReader: HuffCdicReader | null = null;
+    if (header.compression === COMPRESSION_HUFF) {
+      const huff = this.getRecord(arrayBuffer, records, header.huffRecordOffset);
+      const cdics: Uint8Array[] = [];
+      for (let i = 1; i < header.huffRecordCount; i++) {
+        cdics.push(this.getRecord(arrayBuffer, records, header.huffRecordOffset + i));
+      }
+      huffReader = new HuffCdicReader(huff, cdics);
+    } else if (header.compression !== COMPRESSION_NONE && header.compression !== COMPRESSION_PALMDOC) {
+      throw new Error(`不支持的压缩方式: ${header.compression}`);
+    }
+
+    const chunks: Uint8Array[] = [];
+    for (let i = 1; i <= header.textRecordCount && i < records.length; i++) {
+      const raw = this.trimTrailingEntries(this.getRecord(arrayBuffer, records, i), header.extraDataFlags);
+
+      if (huffReader) {
+        chunks.push(huffReader.unpack(raw));
+      } else if (header.compression === COMPRESSION_PALMDOC) {
+        chunks.push(this.decompressPalmDoc(raw));
+      } else {
+        chunks.push(raw);
+      }
+    }
+
+    const bytes = concatBytes(chunks);
+    const length = header.textLength > 0 ? Math.min(header.textLength, bytes.length) : bytes.length;
+    const flow = this.readFirstFlow(arrayBuffer, records, header);
+    const start = flow ? Math.min(flow.start, length) : 0;
+    const end = flow ? Math.min(Math.max(flow.end, start), length) : length;
+    return new TextDecoder(header.encoding).decode(bytes.subarray(start, end));
+  }
+
+  /**
+   * KF8：从 FDST 记录读取 flow 0（XHTML）在正文中的字节范围；没有 FDST 时返回 null（整段正文）
+   * FDST 结构："FDST" + 表偏移 + flow 数，表中每个 flow 为起止偏移（各 4 字节）
+   */
+  private static readFirstFlow(
+    arrayBuffer: ArrayBuffer,
+    records: PalmRecord[],
+    header: MobiHeader
+  ): { start: number; end: number } | null {
+    if (header.fdstIndex >= records.length) return null;
+
+    const fdst = this.getRecord(arrayBuffer, records, header.fdstIndex);
+    if (fdst.length < 12 || readAscii(fdst, 0, 4) !== 'FDST') {
+      console.warn('[MobiAdapter] FDST 记录无效，使用整段正文');
+      return null;
+    }
+
+    const view = new DataView(fdst.buffer, fdst.byteOffset, fdst.byteLength);
+    const tableOffset = view.getUint32(4);
+    if (view.getUint32(8) < 1 || tableOffset + 8 > fdst.length) return null;
+
+    return { start: view.getUint32(tableOffset), end: view.getUint32(tableOffset + 4) };
+  }
+
+  /**
+   * PalmDOC（LZ77 变体）解压
+   */
+  static decompressPalmDoc(data: Uint8Array): Uint8Array {
+    const output: number[] = [];
+    let i = 0;
+
+    while (i < data.length) {
+      const c = data[i++];
+
+      if (c >= 0x01 && c <= 0x08) {
+        // 后续 c 个字节原样复制
+        for (let j = 0; j < c && i < data.length; j++) {
+          output.push(data[i++]);
+        }
+      } else if (c < 0x80) {
+        // 单字节字面量
+        output.push(c);
+      } else if (c >= 0xc0) {
+        // 空格 + 字符
+        output.push(0x20, c ^ 0x80);
+      } else {
+        // 回溯引用：11 位距离 + 3 位长度
+        if (i >= data.length) break;
+        const pair = (c << 8) | data[i++];
+        const distance = (pair >> 3) & 0x7ff;
+        const length = (pair & 0x07) + 3;
+        const start = output.length - distance;
+        if (distance === 0 || start < 0) continue;
+        for (let j = 0; j < length; j++) {
+          output.push(output[start + j]);
+        }
+      }
+    }
+
+    return Uint8Array.from(output);
+  }
+
+  /**
+   * 去除正文记录尾部的附加数据（multibyte / TBS 索引等）
+   */
+  private static trimTrailingEntries(data: Uint8Array, flags: number): Uint8Array {
+    let size = data.length;
+
+    for (let bits = flags >> 1; bits; bits >>= 1) {
+      if (bits & 1) {
+        // 尾部变长整数（从后向前读取，最高位为结束标志）
+        let entrySize = 0;
+        let shift = 0;
+        let pos = size;
+        while (pos > 0) {
+          const v = data[--pos];
+          entrySize |= (v & 0x7f) << shift;
+          shift += 7;
+          if ((v & 0x80) || shift >= 28) break;
+        }
+        size = Math.max(0, size - entrySize);
+      }
+    }
+
+    if ((flags & 1) && size > 0) {
+      size = Math.max(0, size - ((data[size - 1] & 0x03) + 1));
+    }
+
+    return data.subarray(0, size);
+  }
+
+  /**
+   * 将正文 HTML 拆分为章节
+   * - MOBI7：按 <mbp:pagebreak/> 拆分
+   * - KF8：按 XHTML 文件边界拆分（每个文件的 fragments 紧跟在 skeleton 之后）
+   */
+  private static splitParts(text: string, isKF8: boolean): string[] {
+    const pieces = isKF8
+      ? text.split(/(?=<\?xml|<html[\s>])/i)
+      : text.split(/<mbp:pagebreak[^>]*>/i);
+
+    return pieces.filter(part => {
+      if (/<img\b/i.test(part)) return true;
+      const plain = part
+        .replace(/<head[\s\S]*?<\/head>/gi, '')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;|\s/g, '');
+      return plain.length > 0;
+    });
+  }
+
+  /**
+   * 提取章节标题：第一个 h1-h3 标题
+   */
+  private static extractPartTitle(part: string): string {
+    const match = part.match(/<h([1-3])[^>]*>([\s\S]*?)<\/h\1>/i);
+    if (!match) return '';
+    const document = new DOMParser().parseFromString(match[2], 'text/html');
+    return (document.body.textContent || '').replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * 解析 <img> 引用的图片记录，返回图片 Blob
+   * - MOBI7：recindex="00001"（十进制，1 起始）
+   * - KF8：src="kindle:embed:0001?mime=..."（base32，1 起始）
+   */
+  private static resolveImage(element: Element, content: MobiContent, arrayBuffer: ArrayBuffer): Blob | null {
+    const recindex = element.getAttribute('recindex')
+      || element.getAttribute('hirecindex')
+      || element.getAttribute('lorecindex');
+
+    let index = 0;
+    if (recindex) {
+      index = parseInt(recindex, 10);
+    } else {
+      const match = (element.getAttribute('src') || '').match(/kindle:embed:([0-9a-v]+)/i);
+      if (match) {
+        index = parseInt(match[1], 32);
+      }
+    }
+
+    if (!index) return null;
+
+    return this.getImageBlob(content, arrayBuffer, content.header.firstImageIndex + index - 1);
+  }
+
+  /**
+   * 提取封面（EXTH 201，回退到缩略图 EXTH 202）
+   */
+  private static extractCover(content: MobiContent, arrayBuffer: ArrayBuffer): Blob | null {
+    const { header } = content;
+    const data = header.exth.get(EXTH_COVER_OFFSET)?.[0] || header.exth.get(EXTH_THUMB_OFFSET)?.[0];
+    if (!data || data.length < 4) return null;
+
+    const offset = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0);
+    if (offset === 0xffffffff) return null;
+
+    const blob = this.getImageBlob(content, arrayBuffer, header.firstImageIndex + offset);
+    if (blob) {
+      console.log('[MobiAdapter] 封面提取成功');
+    }
+    return blob;
+  }
+
+  /**
+   * 读取图片记录为 Blob（根据文件头识别 MIME 类型）
+   */
+  private static getImageBlob(content: MobiContent, arrayBuffer: ArrayBuffer, index: number): Blob | null {
+    if (content.header.firstImageIndex === 0xffffffff || index >= content.records.length) {
+      return null;
+    }
+
+    const data = this.getRecord(arrayBuffer, content.records, index);
+    const type = this.detectImageType(data);
+    if (!type) {
+      console.warn('[MobiAdapter] 记录不是图片:', index);
+      return null;
+    }
+
+    return new Blob([data.slice()], { type });
+  }
+
+  /**
+   * 根据文件头识别图片类型
+   */
+  private static detectImageType(data: Uint8Array): string | null {
+    if (data[0] === 0xff && data[1] === 0xd8) return 'image/jpeg';
+    if (data[0] === 0x89 && readAscii(data, 1, 3) === 'PNG') return 'image/png';
+    if (readAscii(data, 0, 4) === 'GIF8') return 'image/gif';
+    if (readAscii(data, 0, 2) === 'BM') return 'image/bmp';
+    return null;
+  }
+
+  /**
+   * 读取 EXTH 字符串
+   */
+  private static getExthString(header: MobiHeader, type: number): string {
+    const data = header.exth.get(type)?.[0];
+    return data ? this.decodeString(header, data).trim() : '';
+  }
+
+  /**
+   * 按书籍编码解码字符串
+   */
+  private static decodeString(header: MobiHeader, data: Uint8Array): string {
+    return new TextDecoder(header.encoding).decode(data);
+  }
+}
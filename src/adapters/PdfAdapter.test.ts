@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { PdfAdapter, type PdfTextLine } from './PdfAdapter';
+import { LayerBuilder } from './LayerBuilder';
+
+/**
+ * 构造一行文本：y 为基线（向上为正），默认字号 10、版心 0-200
+ */
+function line(text: string, y: number, options: Partial<PdfTextLine> = {}): PdfTextLine {
+  return { text, x: 0, y, height: 10, right: 200, ...options };
+}
+
+function reflow(...pages: Parameters<typeof PdfAdapter.reflow>[0]) {
+  const builder = new LayerBuilder();
+  PdfAdapter.reflow(pages, builder);
+  return builder.build();
+}
+
+describe('PdfAdapter', () => {
+  it('should sniff the %PDF- signature', () => {
+    const header = new Uint8Array(Array.from('%PDF-1.7', c => c.charCodeAt(0)));
+    expect(PdfAdapter.sniff(header)).toBe(true);
+    expect(PdfAdapter.sniff(new Uint8Array(8))).toBe(false);
+  });
+
+  describe('Reflow', () => {
+    it('should join wrapped lines and break on indentation and short lines', () => {
+      const layers = reflow({
+        lines: [
+          line('第一段的第一行', 700, { x: 20 }),
+          line('第一段的第二行', 688),
+          line('结束。', 676, { right: 40 }),
+          line('Second paragraph is hyph-', 664, { x: 20 }),
+          line('enated and wraps', 652),
+          line('12', 30, { right: 20 })
+        ],
+        images: []
+      });
+
+      expect(layers[0].paragraphs).toEqual([
+        '第一段的第一行第一段的第二行结束。',
+        'Second paragraph is hyphenated and wraps'
+      ]);
+    });
+
+    it('should break on large vertical gaps and font size changes', () => {
+      const layers = reflow({
+        lines: [
+          line('Chapter One', 720, { height: 18, right: 90 }),
+          line('Body text line one', 690),
+          line('continues here', 678),
+          line('and here', 666),
+          line('After a gap', 630)
+        ],
+        images: []
+      });
+
+      expect(layers[0].paragraphs).toEqual(['Chapter One', 'Body text line one continues here and here', 'After a gap']);
+    });
+
+    it('should continue paragraphs across pages and place images by position', () => {
+      const layers = reflow(
+        { lines: [line('Across the', 100, { x: 20 })], images: [] },
+        {
+          lines: [line('page break.', 700, { right: 80 }), line('Caption', 300, { right: 50 })],
+          images: [{ url: 'blob:figure', y: 320 }]
+        }
+      );
+
+      expect(layers).toEqual([
+        { paragraphs: ['Across the page break.'], startIndex: 0, image: 'blob:figure' },
+        { paragraphs: ['Caption'], startIndex: 2 }
+      ]);
+    });
+  });
+});
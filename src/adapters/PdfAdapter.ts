@@ -0,0 +1,632 @@
+/**
+ * PDF 格式适配器
+ * 提取文本层并重排为段落，用 UnifiedReader 的自定义样式阅读（而不是固定版式）
+ *
+ * 分章规则：
+ * - 有书签（outline）时每个书签为一章，层级记录在 UnifiedChapter.level
+ * - 第一个书签之前的页面作为"前言"章节
+ * - 没有书签时每 PAGES_PER_CHAPTER 页为一章
+ *
+ * pdf.js 按需动态加载，worker 和 CMap 随应用打包，不访问外部网络；
+ * 扫描版 PDF 没有文本层，每页的图片作为图片 layer 显示
+ */
+
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import type { UnifiedBook, UnifiedChapter, ContentLayer } from '@/types/book';
+import { LayerBuilder } from './LayerBuilder';
+
+type PdfJs = typeof import('pdfjs-dist');
+
+/**
+ * 重排前的一行文本（PDF 用户空间坐标，y 轴向上）
+ */
+export interface PdfTextLine {
+  text: string;
+  x: number;          // 行首横坐标
+  y: number;          // 基线纵坐标
+  height: number;     // 字号
+  right: number;      // 行尾横坐标
+}
+
+/**
+ * 单页提取结果
+ */
+export interface PdfPage {
+  lines: PdfTextLine[];
+  images: { url: string; y: number; size?: number }[];   // y 为图片底边纵坐标，size 为字节数
+}
+
+/**
+ * 章节对应的页面范围（endPage 不包含）
+ */
+interface PdfChapter {
+  title: string;
+  level: number;
+  startPage: number;
+  endPage: number;
+}
+
+/**
+ * 已打开的文档，按书缓存，避免每章重复加载
+ */
+interface PdfContent {
+  document: PDFDocumentProxy;
+  chapters: PdfChapter[];
+}
+
+/**
+ * pdf.js 解码后的图片数据
+ */
+interface PdfImageData {
+  width: number;
+  height: number;
+  kind?: number;
+  data?: Uint8ClampedArray | Uint8Array;
+  bitmap?: ImageBitmap;
+}
+
+/**
+ * 打包的 CMap 文件（中日韩字体文本提取需要）
+ */
+const CMAP_URLS = import.meta.glob('/node_modules/pdfjs-dist/cmaps/*.bcmap', {
+  query: '?url',
+  import: 'default',
+  eager: true
+}) as Record<string, string>;
+
+/**
+ * 从打包资源读取 CMap，替代 pdf.js 默认的 cMapUrl 目录请求
+ */
+class BundledCMapReaderFactory {
+  async fetch({ name }: { name: string }): Promise<{ cMapData: Uint8Array; isCompressed: boolean }> {
+    const url = CMAP_URLS[`/node_modules/pdfjs-dist/cmaps/${name}.bcmap`];
+    if (!url) {
+      throw new Error(`CMap 不存在: ${name}`);
+    }
+    const response = await fetch(url);
+    return { cMapData: new Uint8Array(await response.arrayBuffer()), isCompressed: true };
+  }
+}
+
+export class PdfAdapter {
+  /**
+   * FormatAdapter 元信息
+   */
+  static readonly format = 'pdf';
+  static readonly label = 'PDF';
+  static readonly version = 1;
+  static readonly extensions = ['.pdf'];
+
+  /**
+   * 没有书签时每章页数
+   */
+  static readonly PAGES_PER_CHAPTER = 10;
+
+  /**
+   * 小于该尺寸（像素）的图片视为装饰，不提取
+   */
+  private static readonly MIN_IMAGE_SIZE = 32;
+
+  /**
+   * 页眉页脚中的页码行
+   */
+  private static readonly PAGE_NUMBER_REGEX = /^[-–—\s]*(第\s*)?\d+(\s*页)?[-–—\s]*$|^\d+\s*\/\s*\d+$/;
+
+  /**
+   * 中日韩字符（行间直接拼接，不加空格）
+   */
+  private static readonly CJK_REGEX = /[\u2E80-\u9FFF\uF900-\uFAFF\uFF00-\uFFEF]/;
+
+  /**
+   * 已打开文档缓存（以原始数据为键，书籍关闭时由 dispose 释放）
+   */
+  private static contentCache: WeakMap<ArrayBuffer, PdfContent> = new WeakMap();
+
+  /**
+   * pdf.js 模块（首次使用时加载）
+   */
+  private static pdfjs: Promise<PdfJs> | null = null;
+
+  /**
+   * 魔数检测：%PDF-
+   */
+  static sniff(header: Uint8Array): boolean {
+    return String.fromCharCode(...header.subarray(0, 5)) === '%PDF-';
+  }
+
+  /**
+   * 解析 PDF 文件为 UnifiedBook
+   */
+  static async parse(
+    arrayBuffer: ArrayBuffer,
+    filename: string
+  ): Promise<UnifiedBook> {
+    console.log('[PdfAdapter] 开始解析 PDF 文件:', filename);
+
+    // 1. 打开文档并根据书签分章
+    const content = await this.getContent(arrayBuffer);
+    const pdf = content.document;
+
+    // 2. 提取元数据
+    const { info } = await pdf.getMetadata();
+    const fields = info as Record<string, unknown>;
+    const field = (name: string) => typeof fields[name] === 'string' ? (fields[name] as string).trim() : '';
+    const title = field('Title') || filename.replace(/\.pdf$/i, '');
+    const author = field('Author') || 'Unknown';
+    console.log('[PdfAdapter] 书籍信息:', { title, author, pages: pdf.numPages });
+
+    // 3. 渲染第一页作为封面
+    const cover = await this.renderCover(pdf);
+
+    // 4. 生成目录（懒加载，不解析内容）
+    const chapters: UnifiedChapter[] = content.chapters.map((chapter, i) => ({
+      id: i,
+      title: chapter.title,
+      level: chapter.level,
+      parentId: this.findParent(content.chapters, i),
+      layers: [],
+      isLoaded: false
+    }));
+    console.log('[PdfAdapter] 检测到章节数:', chapters.length);
+
+    // 5. 构建 UnifiedBook
+    const book: UnifiedBook = {
+      title,
+      author,
+      cover,
+      format: 'pdf',
+      description: field('Subject') || undefined,
+      chapters,
+      rawData: arrayBuffer,
+      addTime: Date.now()
+    };
+
+    return book;
+  }
+
+  /**
+   * 懒加载：提取章节页面的文本和图片，重排为 ContentLayer 数组
+   */
+  static async loadChapter(
+    book: UnifiedBook,
+    chapterId: number,
+    signal?: AbortSignal
+  ): Promise<ContentLayer[]> {
+    console.log('[PdfAdapter] 懒加载章节:', chapterId);
+
+    const chapter = book.chapters[chapterId];
+    if (!chapter) {
+      throw new Error(`章节 ${chapterId} 不存在`);
+    }
+
+    // 如果已加载，直接返回
+    if (chapter.isLoaded && chapter.layers.length > 0) {
+      console.log('[PdfAdapter] 章节已缓存，直接返回');
+      return chapter.layers;
+    }
+
+    const content = await this.getContent(book.rawData);
+    const range = content.chapters[chapterId];
+    const pdfjs = await this.loadPdfJs();
+
+    const pages: PdfPage[] = [];
+    for (let i = range.startPage; i < range.endPage; i++) {
+      // 取消时停止提取后续页面，已创建的图片在下方统一释放
+      if (signal?.aborted) break;
+
+      const page = await content.document.getPage(i + 1);
+      pages.push(await this.extractPage(pdfjs, page));
+      page.cleanup();
+    }
+
+    const builder = new LayerBuilder();
+    // 与下一书签同页的分卷标题没有独立页面，只显示标题
+    if (pages.length === 0) {
+      builder.addParagraph(range.title);
+    }
+    this.reflow(pages, builder);
+    const layers = builder.build();
+    LayerBuilder.discardIfAborted(layers, signal);
+
+    console.log('[PdfAdapter] 章节解析完成，layers 数:', layers.length);
+    return layers;
+  }
+
+  /**
+   * 释放文档（同时终止 pdf.js worker 中的解析任务）
+   */
+  static dispose(book: UnifiedBook): void {
+    const content = this.contentCache.get(book.rawData);
+    if (content) {
+      content.document.destroy();
+      this.contentCache.delete(book.rawData);
+    }
+  }
+
+  /**
+   * 将多页文本行重排为段落，写入 LayerBuilder
+   *
+   * 分段依据（满足任一即开始新段落）：
+   * - 行首缩进（首行缩进 2 字符的中文排版）
+   * - 上一行明显短于版心宽度（段落末行）
+   * - 行距明显大于本页常规行距，或字号变化（标题）
+   * 跨页时只按缩进和上一行长度判断，段落可以延续到下一页
+   * 图片按纵坐标插入到其下方第一行之前
+   */
+  static reflow(pages: PdfPage[], builder: LayerBuilder): void {
+    let paragraph = '';
+    let previous: PdfTextLine | null = null;
+    let previousEndsShort = false;
+
+    const flush = () => {
+      builder.addParagraph(paragraph);
+      paragraph = '';
+    };
+
+    for (const page of pages) {
+      const lines = this.stripPageNumbers(page.lines);
+      const images = [...page.images].sort((a, b) => b.y - a.y);
+      const leftMargin = Math.min(...lines.map(l => l.x));
+      const rightMargin = Math.max(...lines.map(l => l.right));
+      const lineGap = this.medianLineGap(lines);
+      let samePage = false;
+
+      for (const line of lines) {
+        // 图片底边在本行基线之上：图片排在本行之前
+        while (images.length > 0 && images[0].y > line.y) {
+          flush();
+          const image = images.shift()!;
+          builder.addImage(image.url, image.size);
+          previous = null;
+        }
+
+        const indented = line.x - leftMargin > line.height * 0.8;
+        let breakBefore = !previous || indented || previousEndsShort;
+        if (previous && samePage) {
+          const gap = previous.y - line.y;
+          const sizeChanged = Math.abs(line.height - previous.height) > previous.height * 0.2;
+          breakBefore = breakBefore || sizeChanged || (lineGap > 0 && gap > lineGap * 1.5);
+        }
+
+        if (breakBefore) {
+          flush();
+          paragraph = line.text;
+        } else {
+          paragraph = this.joinLine(paragraph, line.text);
+        }
+
+        previous = line;
+        previousEndsShort = rightMargin - line.right > line.height * 2;
+        samePage = true;
+      }
+
+      // 本页剩余图片（位于所有文字下方）
+      for (const image of images) {
+        flush();
+        builder.addImage(image.url, image.size);
+        previous = null;
+      }
+    }
+
+    flush();
+  }
+
+  /**
+   * 获取已打开的文档（缓存未命中时重新加载）
+   */
+  private static async getContent(arrayBuffer: ArrayBuffer): Promise<PdfContent> {
+    const cached = this.contentCache.get(arrayBuffer);
+    if (cached) return cached;
+
+    const pdfjs = await this.loadPdfJs();
+    // pdf.js 会把数据转移给 worker，传入副本以免 rawData 被清空
+    const pdf = await pdfjs.getDocument({
+      data: new Uint8Array(arrayBuffer.slice(0)),
+      CMapReaderFactory: BundledCMapReaderFactory,
+      useWorkerFetch: false,
+      isEvalSupported: false,
+      isOffscreenCanvasSupported: false
+    }).promise;
+
+    const content: PdfContent = { document: pdf, chapters: await this.buildChapters(pdf) };
+    this.contentCache.set(arrayBuffer, content);
+    return content;
+  }
+
+  /**
+   * 动态加载 pdf.js（体积较大，只在打开 PDF 时加载）
+   */
+  private static loadPdfJs(): Promise<PdfJs> {
+    if (!this.pdfjs) {
+      this.pdfjs = import('pdfjs-dist').then(pdfjs => {
+        pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+        return pdfjs;
+      });
+    }
+    return this.pdfjs;
+  }
+
+  /**
+   * 根据书签生成章节页面范围，没有书签时按页数切分
+   */
+  private static async buildChapters(pdf: PDFDocumentProxy): Promise<PdfChapter[]> {
+    const entries: { title: string; level: number; page: number }[] = [];
+
+    const visit = async (items: Awaited<ReturnType<PDFDocumentProxy['getOutline']>>, level: number) => {
+      for (const item of items) {
+        const page = await this.resolveDestination(pdf, item.dest);
+        if (page !== null && item.title.trim()) {
+          entries.push({ title: item.title.trim(), level, page });
+        }
+        await visit(item.items || [], level + 1);
+      }
+    };
+    await visit((await pdf.getOutline()) || [], 0);
+
+    // 没有可用书签：按页数切分
+    if (entries.length === 0) {
+      const chapters: PdfChapter[] = [];
+      for (let start = 0; start < pdf.numPages; start += this.PAGES_PER_CHAPTER) {
+        const end = Math.min(start + this.PAGES_PER_CHAPTER, pdf.numPages);
+        chapters.push({ title: `第 ${start + 1}-${end} 页`, level: 0, startPage: start, endPage: end });
+      }
+      return chapters;
+    }
+
+    // 书签按页码排序（稳定排序，同页保持书签顺序）
+    entries.sort((a, b) => a.page - b.page);
+    const chapters: PdfChapter[] = entries.map((entry, i) => ({
+      title: entry.title,
+      level: entry.level,
+      startPage: entry.page,
+      endPage: i + 1 < entries.length ? entries[i + 1].page : pdf.numPages
+    }));
+
+    if (entries[0].page > 0) {
+      chapters.unshift({ title: '前言', level: 0, startPage: 0, endPage: entries[0].page });
+    }
+
+    return chapters;
+  }
+
+  /**
+   * 父章节：之前最近的一个层级更高的章节
+   */
+  private static findParent(chapters: PdfChapter[], index: number): number | undefined {
+    for (let i = index - 1; i >= 0; i--) {
+      if (chapters[i].level < chapters[index].level) return i;
+    }
+    return undefined;
+  }
+
+  /**
+   * 将书签目标解析为页码（从 0 开始），无法解析时返回 null
+   */
+  private static async resolveDestination(
+    pdf: PDFDocumentProxy,
+    dest: string | unknown[] | null
+  ): Promise<number | null> {
+    try {
+      const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+      const target = explicit?.[0];
+      if (typeof target === 'number') return target;
+      if (target && typeof target === 'object') {
+        return await pdf.getPageIndex(target as Parameters<PDFDocumentProxy['getPageIndex']>[0]);
+      }
+    } catch (error) {
+      console.warn('[PdfAdapter] 书签目标解析失败:', dest, error);
+    }
+    return null;
+  }
+
+  /**
+   * 提取单页文本行和图片
+   */
+  private static async extractPage(pdfjs: PdfJs, page: PDFPageProxy): Promise<PdfPage> {
+    const textContent = await page.getTextContent();
+    const lines: PdfTextLine[] = [];
+    let current: PdfTextLine | null = null;
+
+    const pushLine = (line: PdfTextLine | null) => {
+      if (!line) return;
+      line.text = line.text.replace(/\s+/g, ' ').trim();
+      if (line.text) lines.push(line);
+    };
+
+    for (const item of textContent.items) {
+      if (!('str' in item)) continue;
+      const [, , , scaleY, x, y] = item.transform as number[];
+      const hasText = item.str.trim() !== '';
+
+      // 纵坐标跳变：pdf.js 未标记换行的新行
+      if (current && hasText && Math.abs(y - current.y) > current.height * 0.5) {
+        pushLine(current);
+        current = null;
+      }
+      if (!current && hasText) {
+        current = { text: '', x, y, height: item.height || Math.abs(scaleY), right: x };
+      }
+      if (current) {
+        current.text += item.str;
+        current.right = Math.max(current.right, x + item.width);
+      }
+      if (item.hasEOL) {
+        pushLine(current);
+        current = null;
+      }
+    }
+    pushLine(current);
+
+    return { lines, images: await this.extractImages(pdfjs, page) };
+  }
+
+  /**
+   * 遍历操作符列表提取图片，并跟踪变换矩阵得到图片在页面中的位置
+   */
+  private static async extractImages(pdfjs: PdfJs, page: PDFPageProxy): Promise<PdfPage['images']> {
+    const { OPS, Util } = pdfjs;
+    const operatorList = await page.getOperatorList();
+    const images: PdfPage['images'] = [];
+    const stack: number[][] = [];
+    let ctm = [1, 0, 0, 1, 0, 0];
+
+    for (let i = 0; i < operatorList.fnArray.length; i++) {
+      const fn = operatorList.fnArray[i];
+      const args = operatorList.argsArray[i];
+
+      if (fn === OPS.save) {
+        stack.push(ctm);
+      } else if (fn === OPS.restore) {
+        ctm = stack.pop() || [1, 0, 0, 1, 0, 0];
+      } else if (fn === OPS.transform) {
+        ctm = Util.transform(ctm, args) as number[];
+      } else if (fn === OPS.paintImageXObject || fn === OPS.paintInlineImageXObject) {
+        const image: PdfImageData | null = fn === OPS.paintInlineImageXObject
+          ? args[0]
+          : await this.getImageObject(page, args[0]);
+        if (!image || image.width < this.MIN_IMAGE_SIZE || image.height < this.MIN_IMAGE_SIZE) continue;
+
+        const blob = await this.imageToBlob(image);
+        if (blob) {
+          // 图片绘制在单位正方形上，底边纵坐标为 f 与 f + d 中较小者
+          images.push({ url: URL.createObjectURL(blob), y: Math.min(ctm[5], ctm[5] + ctm[3]), size: blob.size });
+        }
+      }
+    }
+
+    return images;
+  }
+
+  /**
+   * 读取已解码的图片对象（g_ 开头的图片在文档级公共对象中）
+   */
+  private static getImageObject(page: PDFPageProxy, id: string): Promise<PdfImageData | null> {
+    const objects = id.startsWith('g_') ? page.commonObjs : page.objs;
+    return new Promise(resolve => {
+      try {
+        objects.get(id, (image: PdfImageData) => resolve(image || null));
+      } catch (error) {
+        console.warn('[PdfAdapter] 图片读取失败:', id, error);
+        resolve(null);
+      }
+    });
+  }
+
+  /**
+   * 将 pdf.js 图片数据绘制到 canvas 并导出为 Blob
+   */
+  private static async imageToBlob(image: PdfImageData): Promise<Blob | null> {
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width;
+    canvas.height = image.height;
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    if (image.bitmap) {
+      context.drawImage(image.bitmap, 0, 0);
+    } else if (image.data) {
+      const rgba = this.toRGBA(image);
+      if (!rgba) return null;
+      context.putImageData(new ImageData(rgba, image.width, image.height), 0, 0);
+    } else {
+      return null;
+    }
+
+    const type = image.kind === 3 ? 'image/png' : 'image/jpeg';
+    return new Promise(resolve => canvas.toBlob(resolve, type, 0.9));
+  }
+
+  /**
+   * 将 pdf.js 的 ImageKind 像素格式转换为 RGBA
+   * 1：1 位灰度（按行补齐到字节，1 为白色）；2：RGB；3：RGBA
+   */
+  private static toRGBA(image: PdfImageData) {
+    const { width, height, kind } = image;
+    const src = image.data!;
+    const dest = new Uint8ClampedArray(width * height * 4);
+
+    if (kind === 3) {
+      dest.set(src.subarray(0, dest.length));
+    } else if (kind === 2) {
+      for (let s = 0, d = 0; d < dest.length; s += 3, d += 4) {
+        dest[d] = src[s];
+        dest[d + 1] = src[s + 1];
+        dest[d + 2] = src[s + 2];
+        dest[d + 3] = 255;
+      }
+    } else if (kind === 1) {
+      const rowBytes = (width + 7) >> 3;
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const bit = src[y * rowBytes + (x >> 3)] & (128 >> (x & 7));
+          const d = (y * width + x) * 4;
+          dest[d] = dest[d + 1] = dest[d + 2] = bit ? 255 : 0;
+          dest[d + 3] = 255;
+        }
+      }
+    } else {
+      return null;
+    }
+
+    return dest;
+  }
+
+  /**
+   * 渲染第一页缩略图作为封面
+   */
+  private static async renderCover(pdf: PDFDocumentProxy): Promise<Blob | null> {
+    try {
+      const page = await pdf.getPage(1);
+      const viewport = page.getViewport({ scale: 1 });
+      const scaled = page.getViewport({ scale: 400 / viewport.width });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.floor(scaled.width);
+      canvas.height = Math.floor(scaled.height);
+      const context = canvas.getContext('2d');
+      if (!context) return null;
+
+      await page.render({ canvasContext: context, viewport: scaled }).promise;
+      page.cleanup();
+      return await new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.85));
+    } catch (error) {
+      console.warn('[PdfAdapter] 封面渲染失败:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 去掉页首、页尾的页码行
+   */
+  private static stripPageNumbers(lines: PdfTextLine[]): PdfTextLine[] {
+    return lines.filter((line, i) =>
+      !((i === 0 || i === lines.length - 1) && this.PAGE_NUMBER_REGEX.test(line.text))
+    );
+  }
+
+  /**
+   * 本页常规行距（相邻行基线差的下中位数，段间距只会让行距偏大）
+   */
+  private static medianLineGap(lines: PdfTextLine[]): number {
+    const gaps = lines
+      .slice(1)
+      .map((line, i) => lines[i].y - line.y)
+      .filter(gap => gap > 0)
+      .sort((a, b) => a - b);
+    return gaps.length > 0 ? gaps[Math.floor((gaps.length - 1) / 2)] : 0;
+  }
+
+  /**
+   * 拼接段落中的下一行：中日韩文字直接拼接，西文加空格，去掉行尾连字符
+   */
+  private static joinLine(paragraph: string, text: string): string {
+    if (/[A-Za-z]-$/.test(paragraph) && /^[a-z]/.test(text)) {
+      return paragraph.slice(0, -1) + text;
+    }
+    if (this.CJK_REGEX.test(paragraph.slice(-1)) || this.CJK_REGEX.test(text[0])) {
+      return paragraph + text;
+    }
+    return `${paragraph} ${text}`;
+  }
+}
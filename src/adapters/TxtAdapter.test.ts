@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { TxtAdapter } from './TxtAdapter';
+
+function toBuffer(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+function toUtf16le(text: string): ArrayBuffer {
+  const bytes = new Uint8Array(2 + text.length * 2);
+  bytes.set([0xff, 0xfe]);
+  for (let i = 0; i < text.length; i++) {
+    bytes[2 + i * 2] = text.charCodeAt(i) & 0xff;
+    bytes[3 + i * 2] = text.charCodeAt(i) >> 8;
+  }
+  return bytes.buffer;
+}
+
+function hardWrap(paragraph: string, width: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of paragraph.split(' ')) {
+    if (line && line.length + word.length + 1 > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  return [...lines, line];
+}
+
+const SENTENCE = 'It was the best of times, it was the worst of times, it was the age of wisdom, it was the age of foolishness, it was the epoch of belief.';
+
+const ENGLISH = [
+  'Prologue',
+  'It was a dark night.',
+  'CHAPTER XII',
+  'The storm came.',
+  'Chapter 13: The Return',
+  'Part of the crew stayed behind.'
+].join('\n');
+
+describe('TxtAdapter', () => {
+  describe('Chapter Rules', () => {
+    it('should keep the legacy Chinese rule when no rule is stored', async () => {
+      const text = '第一章 开始\n内容\n卷二\n更多内容\n第二章 结束\n尾声';
+      const book = await TxtAdapter.parse(toBuffer(text), 'legacy.txt');
+
+      expect(book.chapterRule).toEqual({ preset: 'chinese' });
+      expect(book.chapters.map(c => c.title)).toEqual(['第一章 开始', '第二章 结束']);
+    });
+
+    it('should auto-detect English headings', async () => {
+      const book = await TxtAdapter.parse(toBuffer(ENGLISH), 'novel.txt', { chapterRule: { preset: 'auto' } });
+
+      expect(book.chapterRule).toEqual({ preset: 'english' });
+      expect(book.chapters.map(c => c.title)).toEqual(['Prologue', 'CHAPTER XII', 'Chapter 13: The Return']);
+
+      const layers = await TxtAdapter.loadChapter(book, 2);
+      expect(layers[0].paragraphs).toEqual(['Part of the crew stayed behind.']);
+    });
+
+    it('should match volumes and extras with the extended Chinese preset', async () => {
+      const text = '楔子\n引言\n卷一 风起\n第一章 开始\n内容\n番外：后日谈\n内容';
+      const book = await TxtAdapter.parse(toBuffer(text), 'zh.txt', { chapterRule: { preset: 'auto' } });
+
+      expect(book.chapterRule).toEqual({ preset: 'chinese-extended' });
+      expect(book.chapters.map(c => c.title)).toEqual(['楔子', '卷一 风起', '第一章 开始', '番外：后日谈']);
+    });
+
+    it('should apply custom patterns and reject invalid ones', async () => {
+      const text = '第1话 相遇\n内容\n第2话 离别\n内容';
+      const rule = { preset: 'custom', pattern: '^第\\d+话' };
+      const book = await TxtAdapter.parse(toBuffer(text), 'manga.txt', { chapterRule: rule });
+
+      expect(book.chapterRule).toEqual(rule);
+      expect(book.chapters.map(c => c.title)).toEqual(['第1话 相遇', '第2话 离别']);
+      await expect(
+        TxtAdapter.parse(toBuffer(text), 'bad.txt', { chapterRule: { preset: 'custom', pattern: '(' } })
+      ).rejects.toThrow('无效的章节标题正则');
+    });
+  });
+
+  describe('Chapter Index', () => {
+    it('should load chapters by offset even when titles repeat', async () => {
+      const text = '前言\r\n第一章 重复\r\n甲\r\n\r\n第一章 重复\r\n乙\r\n丙';
+      const book = await TxtAdapter.parse(toBuffer(text), 'dup.txt');
+
+      expect(book.chapters.map(c => c.title)).toEqual(['正文', '第一章 重复', '第一章 重复']);
+      expect((await TxtAdapter.loadChapter(book, 0))[0].paragraphs).toEqual(['前言']);
+      expect((await TxtAdapter.loadChapter(book, 1))[0].paragraphs).toEqual(['甲']);
+      expect((await TxtAdapter.loadChapter(book, 2))[0].paragraphs).toEqual(['乙', '丙']);
+    });
+
+    it('should index UTF-16 files by code unit', async () => {
+      const book = await TxtAdapter.parse(toUtf16le('第一章 上\n内容一\n第二章 下\n内容二'), 'utf16.txt');
+
+      expect(book.chapterIndex?.chapters[0]).toMatchObject({ start: 14, end: 22 });
+      expect((await TxtAdapter.loadChapter(book, 1))[0].paragraphs).toEqual(['内容二']);
+    });
+
+    it('should reuse a stored index only while encoding and rule match', async () => {
+      const buffer = toBuffer('第一章 开始\n内容\n第二章 结束\n内容');
+      const { chapterIndex, chapterRule } = await TxtAdapter.parse(buffer, 'a.txt');
+
+      const reused = await TxtAdapter.parse(buffer, 'a.txt', { chapterIndex, chapterRule });
+      expect(reused.chapterIndex).toBe(chapterIndex);
+
+      const redecoded = await TxtAdapter.parse(buffer, 'a.txt', { chapterIndex, chapterRule, encoding: 'gb18030' });
+      expect(redecoded.chapterIndex?.encoding.manual).toBe(true);
+      expect(redecoded.textEncoding).toEqual({ encoding: 'gb18030', confidence: 1, manual: true });
+    });
+  });
+
+  describe('Hard Wrap Reflow', () => {
+    const paragraphs = Array.from({ length: 8 }, (_, i) => `${i + 1}. ${SENTENCE} ${SENTENCE}`);
+    const wrapped = ['CHAPTER I', ...paragraphs.flatMap(p => [...hardWrap(p, 70), ''])].join('\r\n');
+
+    it('should detect wrapped text and merge lines into paragraphs', async () => {
+      const book = await TxtAdapter.parse(toBuffer(wrapped), 'gutenberg.txt', { chapterRule: { preset: 'english' } });
+
+      expect(book.chapterIndex?.hardWrap.detected).toBe(true);
+      expect(book.reflow).toEqual({ enabled: true });
+
+      const layers = await TxtAdapter.loadChapter(book, 0);
+      expect(layers[0].startIndex).toBe(0);
+      expect(layers[0].paragraphs).toEqual(paragraphs);
+    });
+
+    it('should keep one paragraph per line when turned off manually', async () => {
+      const book = await TxtAdapter.parse(toBuffer(wrapped), 'gutenberg.txt', {
+        chapterRule: { preset: 'english' },
+        reflow: false
+      });
+
+      expect(book.reflow).toEqual({ enabled: false, manual: true });
+      expect((await TxtAdapter.loadChapter(book, 0))[0].paragraphs[0]).toBe(hardWrap(paragraphs[0], 70)[0]);
+    });
+
+    it('should not treat line-per-paragraph novels as wrapped', () => {
+      const lines = Array.from({ length: 40 }, (_, i) => '　　' + '他说道。'.repeat(1 + (i * 7) % 30));
+      expect(TxtAdapter.detectHardWrap(lines).detected).toBe(false);
+    });
+
+    it('should split at indents and short lines and rejoin hyphenated words', () => {
+      const lines = [
+        'A long line that ends with a hyphen-',
+        'ated word and goes on',
+        '  Indented start of a second paragraph',
+        'which continues here',
+        'Third paragraph'
+      ];
+      expect(TxtAdapter.reflowLines(lines, 40)).toEqual([
+        'A long line that ends with a hyphenated word and goes on',
+        'Indented start of a second paragraph which continues here',
+        'Third paragraph'
+      ]);
+    });
+  });
+});
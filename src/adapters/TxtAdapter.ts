@@ -4,77 +4,232 @@
  * 使用 ContentLayer 架构优化内存
  */
 
-import type { UnifiedBook, UnifiedChapter, ContentLayer } from '@/types/book';
+import type {
+  UnifiedBook,
+  ContentLayer,
+  ChapterRule,
+  TxtChapterIndex,
+  TxtChapterRange,
+  TxtHardWrap
+} from '@/types/book';
+import type { ParseOptions } from './FormatAdapter';
+import { EncodingDetector } from '@/core/EncodingDetector';
+
+/**
+ * 章节识别预设
+ */
+export interface ChapterPreset {
+  id: string;
+  name: string;
+  regex: RegExp;
+}
 
 export class TxtAdapter {
   /**
-   * 章节检测正则表达式
-   * 匹配：第x章、第x回、第x节等常见格式
+   * FormatAdapter 元信息（TXT 没有魔数，仅按扩展名识别）
+   */
+  static readonly format = 'txt';
+  static readonly label = 'TXT';
+  static readonly version = 1;
+  static readonly extensions = ['.txt'];
+
+  /**
+   * 章节识别预设（'auto' 按顺序选择第一个命中足够多的预设，'chinese' 除外）
+   * - chinese：第x章、第x回、第x节等常见格式（未保存规则的旧书使用该预设）
+   * - chinese-extended：额外匹配 卷x、序章、楔子、番外、尾声、后记
+   * - english：Chapter 12、CHAPTER XII、Part One、Prologue 等
+   * - numbered：001.、12、 等纯数字编号
+   */
+  static readonly CHAPTER_PRESETS: readonly ChapterPreset[] = [
+    {
+      id: 'chinese',
+      name: '中文章节（第X章 / 回 / 节）',
+      regex: /^第[一二三四五六七八九十百千万0-9]+[章回节卷集部篇].*/
+    },
+    {
+      id: 'chinese-extended',
+      name: '中文扩展（含 卷X / 序章 / 番外 / 尾声）',
+      regex: /^(第[一二三四五六七八九十百千万零〇两0-9０-９]+[章回节卷集部篇]|卷[一二三四五六七八九十百千万零〇0-9０-９]+|(序章|楔子|引子|番外|尾声|后记|终章)(?=$|[\s:：、.．·—\-（(]|[一二三四五六七八九十0-9]))/
+    },
+    {
+      id: 'english',
+      name: '英文（Chapter 12 / CHAPTER XII / Prologue）',
+      regex: /^((chapter|part|book)\s+(\d+|(?=[mdclxvi])m{0,3}(cm|cd|d?c{0,3})(xc|xl|l?x{0,3})(ix|iv|v?i{0,3})|(one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety|hundred)(-\w+)?)|prologue|epilogue|interlude|preface|foreword|afterword|introduction)\b/i
+    },
+    {
+      id: 'numbered',
+      name: '数字编号（001. / 1、）',
+      regex: /^\d{1,4}\s*[.、．]\s*\S/
+    }
+  ];
+
+  /**
+   * 自动识别时，预设至少命中的标题数
+   */
+  private static readonly AUTO_MIN_CHAPTERS = 2;
+
+  /**
+   * 章节标题最大长度（超过视为正文，避免误判以"第一章"开头的段落）
+   */
+  private static readonly MAX_TITLE_LENGTH = 50;
+
+  /**
+   * 硬换行检测：
+   * - 非空行不少于 WRAP_MIN_LINES
+   * - 折行宽度（第 95 百分位行长）不超过 WRAP_MAX_WIDTH
+   * - 长度达到宽度 WRAP_FILL_RATIO 的"写满"行占比不低于 WRAP_MIN_FILLED
    */
-  private static readonly CHAPTER_REGEX = /^第[一二三四五六七八九十百千万0-9]+[章回节卷集部篇].*/;
+  private static readonly WRAP_MIN_LINES = 20;
+  private static readonly WRAP_MAX_WIDTH = 120;
+  private static readonly WRAP_FILL_RATIO = 0.75;
+  private static readonly WRAP_MIN_FILLED = 0.5;
 
   /**
    * Maximum characters per ContentLayer to prevent DOM performance issues
    */
   private static readonly MAX_LAYER_LENGTH = 15000;
 
+  /**
+   * 切分章节时每处理多少行报告一次进度
+   */
+  private static readonly PROGRESS_LINES = 20000;
+
   /**
    * 解析 TXT 文件为 UnifiedBook
    */
   static async parse(
     arrayBuffer: ArrayBuffer,
-    filename: string
+    filename: string,
+    options?: ParseOptions
   ): Promise<UnifiedBook> {
     console.log('[TxtAdapter] 开始解析 TXT 文件:', filename);
 
-    // 1. 编码检测和文本解码
-    const text = this.decodeText(arrayBuffer);
-    console.log('[TxtAdapter] 文本长度:', text.length, '字符');
+    // 1. 已保存的章节索引仍然有效时直接使用，跳过全文解码
+    if (options?.chapterIndex && this.isIndexValid(options.chapterIndex, arrayBuffer, options)) {
+      console.log('[TxtAdapter] 使用已保存的章节索引，章节数:', options.chapterIndex.chapters.length);
+      return this.createBook(arrayBuffer, filename, options.chapterIndex, options.reflow);
+    }
 
-    // 2. 提取元数据
-    const title = this.extractTitle(filename);
-    const author = 'Unknown';
+    const progress = options?.onProgress;
+    const signal = options?.signal;
 
-    // 3. 切分章节
-    const chapters = this.splitChapters(text);
-    console.log('[TxtAdapter] 检测到章节数:', chapters.length);
+    // 2. 编码检测和文本解码（指定编码时跳过检测）
+    const { text, encoding, confidence, bom } = EncodingDetector.decode(arrayBuffer, options?.encoding);
+    console.log('[TxtAdapter] 文本长度:', text.length, '字符');
+    signal?.throwIfAborted();
+    progress?.(0.3);
+
+    // 3. 确定章节识别规则，切分章节并建立偏移索引
+    const chapterRule = this.resolveChapterRule(text, options?.chapterRule);
+    signal?.throwIfAborted();
+    progress?.(0.4);
+    const offsets = this.lineOffsets(new Uint8Array(arrayBuffer), encoding, bom);
+    progress?.(0.5);
+    const chapters = this.splitChapters(
+      text,
+      this.compileChapterRule(chapterRule),
+      offsets,
+      progress && (ratio => progress(0.5 + ratio * 0.4))
+    );
+    console.log('[TxtAdapter] 章节规则:', chapterRule.preset, '检测到章节数:', chapters.length);
+    signal?.throwIfAborted();
+
+    // 4. 检测硬换行
+    const hardWrap = this.detectHardWrap(text.split('\n'));
+    console.log('[TxtAdapter] 硬换行检测:', hardWrap);
+    progress?.(1);
+
+    // 5. 构建 UnifiedBook
+    return this.createBook(arrayBuffer, filename, {
+      encoding: { encoding, confidence, manual: !!options?.encoding },
+      chapterRule,
+      byteLength: arrayBuffer.byteLength,
+      hardWrap,
+      chapters
+    }, options?.reflow);
+  }
 
-    // 4. 构建 UnifiedBook
-    const book: UnifiedBook = {
-      title,
-      author,
+  /**
+   * 根据章节索引构建 UnifiedBook（章节内容懒加载）
+   */
+  private static createBook(
+    arrayBuffer: ArrayBuffer,
+    filename: string,
+    chapterIndex: TxtChapterIndex,
+    reflow?: boolean
+  ): UnifiedBook {
+    return {
+      title: this.extractTitle(filename),
+      author: 'Unknown',
       cover: null,
       format: 'txt',
-      chapters,
+      chapterRule: chapterIndex.chapterRule,
+      textEncoding: chapterIndex.encoding,
+      chapterIndex,
+      reflow: reflow !== undefined
+        ? { enabled: reflow, manual: true }
+        : { enabled: chapterIndex.hardWrap.detected },
+      chapters: chapterIndex.chapters.map((range, id) => ({
+        id,
+        title: range.title,
+        layers: [],
+        isLoaded: false
+      })),
       rawData: arrayBuffer,
       addTime: Date.now()
     };
+  }
 
-    return book;
+  /**
+   * 已保存的索引是否仍然适用：文件未变，编码和章节规则与建立索引时一致
+   * 未指定编码时，只有自动检测建立的索引可复用
+   */
+  private static isIndexValid(
+    index: TxtChapterIndex,
+    arrayBuffer: ArrayBuffer,
+    options: ParseOptions
+  ): boolean {
+    const rule = options.chapterRule ?? { preset: this.CHAPTER_PRESETS[0].id };
+    const encodingMatches = options.encoding
+      ? !!index.encoding.manual && index.encoding.encoding === options.encoding
+      : !index.encoding.manual;
+
+    // 早期建立的索引没有硬换行检测结果，需要重建
+    return index.byteLength === arrayBuffer.byteLength
+      && index.hardWrap !== undefined
+      && encodingMatches
+      && index.chapterRule.preset === rule.preset
+      && index.chapterRule.pattern === rule.pattern;
   }
 
   /**
-   * 编码检测和文本解码
-   * 优先尝试 UTF-8，失败则尝试 GBK
+   * 计算每行起点的字节偏移，末尾追加文件长度（长度为行数 + 1）
+   * GB18030 / Big5 / Shift-JIS 的多字节序列不含 0x0A，可以与 UTF-8 一样按字节查找换行；
+   * UTF-16 按 2 字节码元查找
    */
-  private static decodeText(arrayBuffer: ArrayBuffer): string {
-    try {
-      // 尝试 UTF-8 严格模式
-      const text = new TextDecoder('utf-8', { fatal: true }).decode(arrayBuffer);
-      console.log('[TxtAdapter] 使用 UTF-8 编码');
-      return text;
-    } catch {
-      try {
-        // 尝试 GBK
-        const text = new TextDecoder('gbk').decode(arrayBuffer);
-        console.log('[TxtAdapter] 使用 GBK 编码');
-        return text;
-      } catch {
-        // 降级到 UTF-8 非严格模式
-        console.log('[TxtAdapter] 使用 UTF-8 非严格模式');
-        return new TextDecoder('utf-8').decode(arrayBuffer);
+  private static lineOffsets(bytes: Uint8Array, encoding: string, bom: boolean): number[] {
+    const offsets: number[] = [];
+
+    if (encoding === 'utf-16le' || encoding === 'utf-16be') {
+      const low = encoding === 'utf-16le' ? 0 : 1;
+      const start = bom ? 2 : 0;
+      offsets.push(start);
+      for (let i = start; i + 1 < bytes.length; i += 2) {
+        if (bytes[i + low] === 0x0a && bytes[i + 1 - low] === 0) {
+          offsets.push(i + 2);
+        }
+      }
+    } else {
+      offsets.push(bom ? 3 : 0);
+      for (let i = 0; i < bytes.length; i++) {
+        if (bytes[i] === 0x0a) {
+          offsets.push(i + 1);
+        }
       }
     }
+
+    offsets.push(bytes.length);
+    return offsets;
   }
 
   /**
@@ -84,67 +239,188 @@ export class TxtAdapter {
     return filename.replace(/\.(txt|TXT)$/, '');
   }
 
+  /**
+   * 将规则编译为正则表达式
+   * 没有保存规则的旧书使用 chinese 预设（即引入规则前的原有正则）
+   * @throws 自定义正则无效或预设不存在
+   */
+  static compileChapterRule(rule: ChapterRule | undefined): RegExp {
+    if (!rule) {
+      return this.CHAPTER_PRESETS[0].regex;
+    }
+
+    if (rule.preset === 'custom') {
+      if (!rule.pattern?.trim()) {
+        throw new Error('请输入章节标题正则');
+      }
+      try {
+        return new RegExp(rule.pattern.trim());
+      } catch {
+        throw new Error(`无效的章节标题正则: ${rule.pattern}`);
+      }
+    }
+
+    const preset = this.CHAPTER_PRESETS.find(p => p.id === rule.preset);
+    if (!preset) {
+      throw new Error(`未知的章节识别预设: ${rule.preset}`);
+    }
+    return preset.regex;
+  }
+
+  /**
+   * 解析规则：'auto' 按预设顺序选择第一个命中足够多标题的预设，
+   * 都不满足时回退到 chinese（此时全文为一章）
+   */
+  private static resolveChapterRule(text: string, rule: ChapterRule | undefined): ChapterRule {
+    if (rule?.preset !== 'auto') {
+      return rule ?? { preset: this.CHAPTER_PRESETS[0].id };
+    }
+
+    const lines = text.split('\n').map(line => line.trim());
+    for (const preset of this.CHAPTER_PRESETS.slice(1)) {
+      let count = 0;
+      for (const line of lines) {
+        if (this.isChapterTitle(line, preset.regex) && ++count >= this.AUTO_MIN_CHAPTERS) {
+          return { preset: preset.id };
+        }
+      }
+    }
+    return { preset: this.CHAPTER_PRESETS[0].id };
+  }
+
+  /**
+   * 是否为章节标题行
+   */
+  private static isChapterTitle(line: string, regex: RegExp): boolean {
+    return line.length > 0 && line.length <= this.MAX_TITLE_LENGTH && regex.test(line);
+  }
+
   /**
    * 切分章节
-   * 使用正则表达式检测章节标题
+   * 使用章节规则检测章节标题，记录每章正文的字节范围
+   * @param offsets - 每行起点的字节偏移（见 lineOffsets）
+   * @param onProgress - 按已处理行数报告进度（0-1）
    */
-  private static splitChapters(text: string): UnifiedChapter[] {
+  private static splitChapters(
+    text: string,
+    regex: RegExp,
+    offsets: number[],
+    onProgress?: (ratio: number) => void
+  ): TxtChapterRange[] {
     const lines = text.split('\n');
-    const chapters: UnifiedChapter[] = [];
-    let currentChapter: UnifiedChapter | null = null;
-    let chapterIndex = 0;
+    const chapters: TxtChapterRange[] = [];
+    let currentChapter: TxtChapterRange | null = null;
+
+    for (let i = 0; i < lines.length; i++) {
+      if (onProgress && i % this.PROGRESS_LINES === 0) {
+        onProgress(i / lines.length);
+      }
+
+      const trimmedLine = lines[i].trim();
 
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      
       // 跳过空行
       if (!trimmedLine) continue;
 
       // 检测是否为章节标题
-      if (this.CHAPTER_REGEX.test(trimmedLine)) {
-        // 保存上一章
+      if (this.isChapterTitle(trimmedLine, regex)) {
+        // 上一章在本标题行之前结束
         if (currentChapter) {
+          currentChapter.end = offsets[i];
           chapters.push(currentChapter);
         }
 
-        // 创建新章节（懒加载，layers 为空）
-        currentChapter = {
-          id: chapterIndex++,
-          title: trimmedLine,
-          layers: [],
-          isLoaded: false
-        };
-      } else {
-        // 如果还没有章节，创建默认章节
-        if (!currentChapter) {
-          currentChapter = {
-            id: chapterIndex++,
-            title: '正文',
-            layers: [],
-            isLoaded: false
-          };
-        }
+        // 新章节的正文从标题的下一行开始
+        currentChapter = { title: trimmedLine, start: offsets[i + 1], end: 0 };
+      } else if (!currentChapter) {
+        // 第一个标题之前的内容作为默认章节
+        currentChapter = { title: '正文', start: offsets[i], end: 0 };
       }
     }
 
-    // 保存最后一章
+    // 最后一章到文件末尾
     if (currentChapter) {
+      currentChapter.end = offsets[lines.length];
       chapters.push(currentChapter);
     }
 
     // 如果没有检测到任何章节，创建单章节
     if (chapters.length === 0) {
-      chapters.push({
-        id: 0,
-        title: '全文',
-        layers: [],
-        isLoaded: false
-      });
+      chapters.push({ title: '全文', start: offsets[0], end: offsets[lines.length] });
     }
 
     return chapters;
   }
 
+  /**
+   * 检测硬换行：按固定列宽折行的文本，大多数行接近同一宽度
+   * 逐行分段的文本（网文等）行长分布分散，或存在大量超长行
+   */
+  static detectHardWrap(lines: string[]): TxtHardWrap {
+    const lengths = lines
+      .map(line => line.trimEnd().length)
+      .filter(length => length > 0)
+      .sort((a, b) => a - b);
+
+    if (lengths.length < this.WRAP_MIN_LINES) {
+      return { detected: false, width: 0 };
+    }
+
+    const width = lengths[Math.floor((lengths.length - 1) * 0.95)];
+    const filled = lengths.filter(length => length >= width * this.WRAP_FILL_RATIO).length;
+
+    return {
+      detected: width <= this.WRAP_MAX_WIDTH && filled / lengths.length >= this.WRAP_MIN_FILLED,
+      width
+    };
+  }
+
+  /**
+   * 将硬换行的行合并为段落
+   * 以下情况开始新段落：空行、缩进行、上一行明显短于折行宽度（段落末行）
+   * @param width - 折行宽度（见 detectHardWrap）
+   */
+  static reflowLines(lines: string[], width: number): string[] {
+    const paragraphs: string[] = [];
+    let current = '';
+    let previousLength = 0;
+
+    for (const raw of lines) {
+      const line = raw.trimEnd();
+      const text = line.trim();
+
+      if (!text) {
+        if (current) paragraphs.push(current);
+        current = '';
+        continue;
+      }
+
+      const indented = line.length > text.length;
+      if (current && (indented || previousLength < width * this.WRAP_FILL_RATIO)) {
+        paragraphs.push(current);
+        current = '';
+      }
+
+      current = current ? this.joinWrapped(current, text) : text;
+      previousLength = line.length;
+    }
+
+    if (current) paragraphs.push(current);
+    return paragraphs;
+  }
+
+  /**
+   * 拼接折行：行尾连字符断词直接相连，中日文之间不加空格，其余以空格分隔
+   */
+  private static joinWrapped(previous: string, next: string): string {
+    if (/[A-Za-z]-$/.test(previous) && /^[a-z]/.test(next)) {
+      return previous.slice(0, -1) + next;
+    }
+    if (/[\u2e80-\u9fff\uff00-\uffef]$/.test(previous) || /^[\u2e80-\u9fff\uff00-\uffef]/.test(next)) {
+      return previous + next;
+    }
+    return `${previous} ${next}`;
+  }
+
   /**
    * 懒加载：解析指定章节的内容
    * 将文本转换为 ContentLayer 数组（段落数组格式）
@@ -152,7 +428,8 @@ export class TxtAdapter {
    */
   static async loadChapter(
     book: UnifiedBook,
-    chapterId: number
+    chapterId: number,
+    signal?: AbortSignal
   ): Promise<ContentLayer[]> {
     console.log('[TxtAdapter] 懒加载章节:', chapterId);
 
@@ -167,29 +444,25 @@ export class TxtAdapter {
       return chapter.layers;
     }
 
-    // 解码文本
-    const text = this.decodeText(book.rawData);
-    const lines = text.split('\n');
-
-    // 找到章节的起始和结束位置
-    const { startLine, endLine } = this.findChapterBounds(lines, chapter.title, chapterId, book.chapters);
+    // 解码和分段都是同步的，取消只需在开始前检查
+    signal?.throwIfAborted();
 
-    // 提取章节内容，按段落存储
-    const paragraphs: string[] = [];
-    
-    for (let i = startLine; i < endLine; i++) {
-      const line = lines[i].trim();
-      
-      // 跳过章节标题行
-      if (this.CHAPTER_REGEX.test(line)) continue;
-      
-      // 跳过空行
-      if (!line) continue;
-      
-      // 每一行作为一个段落
-      paragraphs.push(line);
+    const chapterIndex = book.chapterIndex;
+    const range = chapterIndex?.chapters[chapterId];
+    if (!chapterIndex || !range) {
+      throw new Error(`章节 ${chapterId} 缺少偏移索引`);
     }
 
+    // 只解码本章的字节片段（沿用解析时确定的编码）
+    const slice = new Uint8Array(book.rawData, range.start, range.end - range.start);
+    const { text } = EncodingDetector.decode(slice, book.textEncoding?.encoding);
+
+    // 硬换行文本合并为段落，否则每个非空行作为一个段落（段落索引按合并后的结果连续编号）
+    const lines = text.split('\n');
+    const paragraphs = book.reflow?.enabled
+      ? this.reflowLines(lines, chapterIndex.hardWrap.width)
+      : lines.map(line => line.trim()).filter(line => line);
+
     // 应用段落分块策略
     const layers = this.chunkParagraphs(paragraphs);
 
@@ -206,12 +479,13 @@ export class TxtAdapter {
    * 索引计数规则：
    * - 每个段落占用 1 个索引位
    * - startIndex 记录该 Layer 第一段的全局索引
+   * 
+   * @param startIndex - 第一段的全局索引（默认 0，供其他适配器分段追加时使用）
    */
-  static chunkParagraphs(paragraphs: string[]): ContentLayer[] {
+  static chunkParagraphs(paragraphs: string[], startIndex = 0): ContentLayer[] {
     const layers: ContentLayer[] = [];
     let currentChunk: string[] = [];
     let currentChunkSize = 0;
-    let startIndex = 0;
 
     for (const para of paragraphs) {
       // Check if adding this paragraph would exceed the limit
@@ -242,38 +516,4 @@ export class TxtAdapter {
 
     return layers;
   }
-
-  /**
-   * 查找章节在原文中的边界
-   */
-  private static findChapterBounds(
-    lines: string[],
-    chapterTitle: string,
-    chapterId: number,
-    allChapters: UnifiedChapter[]
-  ): { startLine: number; endLine: number } {
-    let startLine = 0;
-    let endLine = lines.length;
-
-    // 查找当前章节的起始行
-    for (let i = 0; i < lines.length; i++) {
-      if (lines[i].trim() === chapterTitle) {
-        startLine = i + 1; // 跳过标题行
-        break;
-      }
-    }
-
-    // 查找下一章节的起始行（作为当前章节的结束）
-    if (chapterId < allChapters.length - 1) {
-      const nextChapterTitle = allChapters[chapterId + 1].title;
-      for (let i = startLine; i < lines.length; i++) {
-        if (lines[i].trim() === nextChapterTitle) {
-          endLine = i;
-          break;
-        }
-      }
-    }
-
-    return { startLine, endLine };
-  }
 }
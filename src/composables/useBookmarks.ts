@@ -0,0 +1,103 @@
+import { ref } from 'vue';
+import { db, type Bookmark } from '@/db';
+import { ElMessage } from 'element-plus';
+
+/**
+ * Marker colors offered in the bookmarks panel (the first one is the default)
+ */
+export const BOOKMARK_COLORS = ['#f5a623', '#e74c3c', '#27ae60', '#3498db'];
+
+/**
+ * Composable for managing the bookmarks of a local book
+ * Bookmarks are kept sorted by reading order (chapter, then paragraph)
+ */
+export function useBookmarks() {
+  const bookmarks = ref<Bookmark[]>([]);
+
+  /**
+   * Load all bookmarks of a book from IndexedDB
+   * @param bookId - The ID of the book
+   * @returns Bookmarks in reading order
+   */
+  async function loadBookmarks(bookId: number): Promise<Bookmark[]> {
+    try {
+      const records = await db.bookmarks.where('bookId').equals(bookId).toArray();
+      bookmarks.value = records.sort(compareBookmarks);
+    } catch (error) {
+      console.error('Failed to load bookmarks:', error);
+      ElMessage.error('Failed to load bookmarks from database.');
+      bookmarks.value = [];
+    }
+    return bookmarks.value;
+  }
+
+  /**
+   * Find the bookmark on a paragraph
+   */
+  function findBookmark(chapterIndex: number, paragraphIndex: number): Bookmark | undefined {
+    return bookmarks.value.find(b => b.chapterIndex === chapterIndex && b.paragraphIndex === paragraphIndex);
+  }
+
+  /**
+   * Add a bookmark
+   * @param bookmark - Book, chapter, paragraph and excerpt; color defaults to the first marker color
+   * @returns The stored bookmark or undefined if saving failed
+   */
+  async function addBookmark(
+    bookmark: Omit<Bookmark, 'id' | 'color' | 'createTime'> & { color?: string }
+  ): Promise<Bookmark | undefined> {
+    try {
+      const record: Bookmark = {
+        ...bookmark,
+        color: bookmark.color ?? BOOKMARK_COLORS[0],
+        createTime: Date.now()
+      };
+      record.id = await db.bookmarks.add(record);
+      bookmarks.value = [...bookmarks.value, record].sort(compareBookmarks);
+      return record;
+    } catch (error) {
+      console.error('Failed to add bookmark:', error);
+      ElMessage.error('Failed to save bookmark.');
+      return undefined;
+    }
+  }
+
+  /**
+   * Update the note or color of a bookmark
+   */
+  async function updateBookmark(id: number, changes: Partial<Pick<Bookmark, 'note' | 'color'>>): Promise<void> {
+    try {
+      await db.bookmarks.update(id, changes);
+      bookmarks.value = bookmarks.value.map(b => b.id === id ? { ...b, ...changes } : b);
+    } catch (error) {
+      console.error('Failed to update bookmark:', error);
+      ElMessage.error('Failed to update bookmark.');
+    }
+  }
+
+  /**
+   * Remove a bookmark
+   */
+  async function removeBookmark(id: number): Promise<void> {
+    try {
+      await db.bookmarks.delete(id);
+      bookmarks.value = bookmarks.value.filter(b => b.id !== id);
+    } catch (error) {
+      console.error('Failed to remove bookmark:', error);
+      ElMessage.error('Failed to remove bookmark.');
+    }
+  }
+
+  return {
+    bookmarks,
+    loadBookmarks,
+    findBookmark,
+    addBookmark,
+    updateBookmark,
+    removeBookmark
+  };
+}
+
+function compareBookmarks(a: Bookmark, b: Bookmark): number {
+  return a.chapterIndex - b.chapterIndex || a.paragraphIndex - b.paragraphIndex;
+}
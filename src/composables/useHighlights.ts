@@ -0,0 +1,95 @@
+import { ref } from 'vue';
+import { db, type Highlight } from '@/db';
+import { ElMessage } from 'element-plus';
+
+/**
+ * Highlight colors offered when highlighting a selection (translucent, readable on every reader theme)
+ */
+export const HIGHLIGHT_COLORS = [
+  'rgba(255, 214, 0, 0.4)',
+  'rgba(76, 217, 100, 0.35)',
+  'rgba(90, 200, 250, 0.35)',
+  'rgba(255, 45, 85, 0.3)'
+];
+
+/**
+ * Composable for managing the highlights and annotations of a local book
+ * Highlights are kept sorted by reading order (chapter, paragraph, then character offset)
+ */
+export function useHighlights() {
+  const highlights = ref<Highlight[]>([]);
+
+  /**
+   * Load all highlights of a book from IndexedDB
+   * @param bookId - The ID of the book
+   * @returns Highlights in reading order
+   */
+  async function loadHighlights(bookId: number): Promise<Highlight[]> {
+    try {
+      const records = await db.highlights.where('bookId').equals(bookId).toArray();
+      highlights.value = records.sort(compareHighlights);
+    } catch (error) {
+      console.error('Failed to load highlights:', error);
+      ElMessage.error('Failed to load highlights from database.');
+      highlights.value = [];
+    }
+    return highlights.value;
+  }
+
+  /**
+   * Add a highlight
+   * @returns The stored highlight or undefined if saving failed
+   */
+  async function addHighlight(highlight: Omit<Highlight, 'id' | 'createTime'>): Promise<Highlight | undefined> {
+    try {
+      const record: Highlight = { ...highlight, createTime: Date.now() };
+      record.id = await db.highlights.add(record);
+      highlights.value = [...highlights.value, record].sort(compareHighlights);
+      return record;
+    } catch (error) {
+      console.error('Failed to add highlight:', error);
+      ElMessage.error('Failed to save highlight.');
+      return undefined;
+    }
+  }
+
+  /**
+   * Update the note or color of a highlight
+   */
+  async function updateHighlight(id: number, changes: Partial<Pick<Highlight, 'note' | 'color'>>): Promise<void> {
+    try {
+      await db.highlights.update(id, changes);
+      highlights.value = highlights.value.map(h => h.id === id ? { ...h, ...changes } : h);
+    } catch (error) {
+      console.error('Failed to update highlight:', error);
+      ElMessage.error('Failed to update highlight.');
+    }
+  }
+
+  /**
+   * Remove a highlight and its note
+   */
+  async function removeHighlight(id: number): Promise<void> {
+    try {
+      await db.highlights.delete(id);
+      highlights.value = highlights.value.filter(h => h.id !== id);
+    } catch (error) {
+      console.error('Failed to remove highlight:', error);
+      ElMessage.error('Failed to remove highlight.');
+    }
+  }
+
+  return {
+    highlights,
+    loadHighlights,
+    addHighlight,
+    updateHighlight,
+    removeHighlight
+  };
+}
+
+function compareHighlights(a: Highlight, b: Highlight): number {
+  return a.chapterIndex - b.chapterIndex
+    || a.paragraphIndex - b.paragraphIndex
+    || a.startOffset - b.startOffset;
+}
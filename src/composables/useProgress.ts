@@ -1,5 +1,6 @@
 import { ref } from 'vue';
-import { db, type Progress } from '@/db';
+import { db, type Progress, type ServerProgress } from '@/db';
+import type { ReadingProgress } from '@/types/book';
 import { ElMessage } from 'element-plus';
 
 /**
@@ -33,33 +34,85 @@ export function useProgress() {
   }
 
   /**
-   * Save reading progress for a book
-   * Updates existing progress record or creates a new one
-   * @param bookId - The ID of the book
+   * Load the online reader's progress for a server book
+   * Server book IDs overlap local book IDs, so online progress lives in its own table
+   * @param serverBookId - The server book ID
+   * @returns The progress record or undefined if not found
+   */
+  async function loadServerProgress(serverBookId: number): Promise<ServerProgress | undefined> {
+    try {
+      return await db.serverProgress.get(serverBookId);
+    } catch (error) {
+      console.error('Failed to load progress:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Save the online reader's progress for a server book
+   * @param serverBookId - The server book ID
    * @param chapterIndex - Current chapter index (0-based)
-   * @param position - CFI string for EPUB or scroll position for TXT
+   * @param position - Scroll position in pixels
    * @param chapterTitle - Current chapter title for display
-   * Requirements: 7.1, 7.2
    */
-  async function saveProgress(
-    bookId: number,
+  async function saveServerProgress(
+    serverBookId: number,
     chapterIndex: number,
-    position: string | number,
+    position: number,
+    chapterTitle?: string
+  ): Promise<void> {
+    await db.serverProgress.put({
+      serverBookId,
+      chapterIndex,
+      chapterTitle: chapterTitle || `第 ${chapterIndex + 1} 章`,
+      position,
+      updateTime: Date.now()
+    });
+  }
+
+  /**
+   * Save a paragraph-anchored reading position for a local book
+   * The position survives font size, line height and window width changes
+   * @param bookId - The ID of the book
+   * @param progress - Chapter, paragraph global index and offset within the paragraph
+   * @param chapterTitle - Current chapter title for display
+   */
+  async function saveReadingProgress(
+    bookId: number,
+    progress: ReadingProgress,
     chapterTitle?: string
   ): Promise<void> {
+    await writeProgress(bookId, {
+      chapterIndex: progress.chapterId,
+      chapterTitle: chapterTitle || `第 ${progress.chapterId + 1} 章`,
+      paragraphIndex: progress.paragraphIndex,
+      paragraphOffset: progress.paragraphOffset,
+      position: undefined, // Dexie removes properties updated to undefined
+      updateTime: Date.now()
+    });
+  }
+
+  /**
+   * Read the paragraph anchor of a progress record (records without one start at the chapter beginning)
+   */
+  function toReadingProgress(progress: Progress): ReadingProgress {
+    return {
+      chapterId: progress.chapterIndex,
+      paragraphIndex: progress.paragraphIndex ?? 0,
+      paragraphOffset: progress.paragraphOffset ?? 0
+    };
+  }
+
+  /**
+   * Update the book's progress record or create a new one
+   */
+  async function writeProgress(bookId: number, progressData: Omit<Progress, 'id' | 'bookId'>): Promise<void> {
     try {
       const existing = await db.progress
         .where('bookId')
         .equals(bookId)
         .first();
 
-      const progressData = {
-        chapterIndex,
-        chapterTitle: chapterTitle || `第 ${chapterIndex + 1} 章`,
-        position,
-        updateTime: Date.now()
-      };
-
       if (existing) {
         // Update existing progress record
         await db.progress.update(existing.id!, progressData);
@@ -149,7 +202,10 @@ export function useProgress() {
   return {
     currentProgress,
     loadProgress,
-    saveProgress,
+    saveReadingProgress,
+    loadServerProgress,
+    saveServerProgress,
+    toReadingProgress,
     getProgressPercentage,
     getProgressChapterTitle
   };
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { db } from '@/db';
+import { useUnifiedLibrary } from './useUnifiedLibrary';
+
+async function clearTables() {
+  await Promise.all([
+    db.books.clear(),
+    db.progress.clear(),
+    db.bookmarks.clear(),
+    db.highlights.clear(),
+    db.parsedChapters.clear()
+  ]);
+}
+
+/**
+ * 写入一本书及其进度、书签、高亮和章节缓存
+ */
+async function seedBook(title: string): Promise<number> {
+  const now = Date.now();
+  const bookId = await db.books.add({
+    title,
+    author: 'Author',
+    format: 'txt',
+    cover: null,
+    data: new ArrayBuffer(8),
+    addTime: now
+  });
+  await db.progress.add({ bookId, chapterIndex: 1, paragraphIndex: 10, updateTime: now });
+  await db.bookmarks.add({ bookId, chapterIndex: 1, paragraphIndex: 10, excerpt: 'Mark', color: '#f00', createTime: now });
+  await db.highlights.add({
+    bookId,
+    chapterIndex: 1,
+    paragraphIndex: 10,
+    startOffset: 0,
+    endParagraphIndex: 10,
+    endOffset: 4,
+    text: 'Mark',
+    color: '#ff0',
+    createTime: now
+  });
+  await db.parsedChapters.put({ bookId, chapterId: 1, signature: 'sig', layers: [], updateTime: now });
+  return bookId;
+}
+
+async function countRecords(bookId: number) {
+  return {
+    books: await db.books.where('id').equals(bookId).count(),
+    progress: await db.progress.where('bookId').equals(bookId).count(),
+    bookmarks: await db.bookmarks.where('bookId').equals(bookId).count(),
+    highlights: await db.highlights.where('bookId').equals(bookId).count(),
+    parsedChapters: await db.parsedChapters.where('bookId').equals(bookId).count()
+  };
+}
+
+describe('useUnifiedLibrary', () => {
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await clearTables();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await clearTables();
+  });
+
+  describe('deleteBook', () => {
+    it('should delete the book and every record attached to it', async () => {
+      const bookId = await seedBook('Deleted');
+      const keptId = await seedBook('Kept');
+      const library = useUnifiedLibrary();
+
+      await library.deleteBook(bookId);
+
+      expect(await countRecords(bookId)).toEqual({
+        books: 0, progress: 0, bookmarks: 0, highlights: 0, parsedChapters: 0
+      });
+      expect(await countRecords(keptId)).toEqual({
+        books: 1, progress: 1, bookmarks: 1, highlights: 1, parsedChapters: 1
+      });
+      expect(library.books.value.map(book => book.id)).toEqual([keptId]);
+    });
+
+    it('should roll back every delete when one of them fails', async () => {
+      const bookId = await seedBook('Kept on failure');
+      const library = useUnifiedLibrary();
+      // 高亮是书籍、进度和书签之后才删除的，失败时前面的删除必须回滚
+      const where = vi.spyOn(db.highlights, 'where').mockReturnValue({
+        equals: () => ({ delete: () => Promise.reject(new Error('quota exceeded')) })
+      } as unknown as ReturnType<typeof db.highlights.where>);
+
+      await expect(library.deleteBook(bookId)).rejects.toThrow('quota exceeded');
+
+      where.mockRestore();
+      expect(await countRecords(bookId)).toEqual({
+        books: 1, progress: 1, bookmarks: 1, highlights: 1, parsedChapters: 1
+      });
+    });
+  });
+});
@@ -5,22 +5,45 @@
 
 import { ref } from 'vue';
 import { db, type Book, unifiedBookToBook, getNextAvailableBookId } from '@/db';
-import type { UnifiedBook } from '@/types/book';
-import { TxtAdapter } from '@/adapters/TxtAdapter';
-import { EpubAdapter } from '@/adapters/EpubAdapter';
+import type { UnifiedBook, BookMetadata } from '@/types/book';
+import { adapterRegistry, AdapterRegistry } from '@/adapters/AdapterRegistry';
+import type { FormatAdapter, ParseOptions } from '@/adapters/FormatAdapter';
+import { parserService } from '@/core/ParserService';
+import { PersistentChapterCache } from '@/core/PersistentChapterCache';
 import { ElMessage } from 'element-plus';
 
+/**
+ * 书架中可编辑的书籍信息
+ */
+export type BookInfo = Pick<Book, 'title' | 'author' | 'cover'> & BookMetadata;
+
+/**
+ * 扩展元数据字段（数据库中已有值时覆盖解析结果）
+ */
+const METADATA_KEYS = [
+  'description', 'publisher', 'language', 'publishDate',
+  'identifier', 'subjects', 'series', 'seriesIndex'
+] as const;
+
 export interface ImportResult {
   success: boolean;
   bookId?: number;
   error?: string;
+  cancelled?: boolean;
 }
 
+/**
+ * 导入进度分配：读取文件 0-10，解析 10-90，写入数据库 90-100
+ */
+const READ_PROGRESS = 10;
+const PARSE_PROGRESS = 90;
+
 export function useUnifiedLibrary() {
   const books = ref<Book[]>([]);
   const loading = ref(false);
   const importing = ref(false);
   const importProgress = ref(0);
+  let importController: AbortController | null = null;
 
   /**
    * 加载所有书籍
@@ -52,18 +75,45 @@ export function useUnifiedLibrary() {
 
       console.log('[useUnifiedLibrary] 解析书籍:', book.title);
 
-      // 使用适配器解析为 UnifiedBook
-      let unifiedBook: UnifiedBook;
-      
-      if (book.format === 'txt') {
-        unifiedBook = await TxtAdapter.parse(book.data, book.title);
-      } else {
-        unifiedBook = await EpubAdapter.parse(book.data, book.title);
+      // 使用适配器解析为 UnifiedBook（沿用导入时保存的解析选项）
+      const unifiedBook = await parserService.parse(book.format, book.data, book.title, {
+        chapterRule: book.chapterRule,
+        encoding: book.encoding,
+        chapterIndex: book.chapterIndex,
+        reflow: book.reflow,
+        chapterHeadingLevel: book.chapterHeadingLevel
+      });
+
+      // 章节索引重新建立（旧书首次打开、编码变更）时写回，下次打开直接复用
+      // （Worker 中解析时索引是副本，按内容比较）
+      if (unifiedBook.chapterIndex
+        && JSON.stringify(unifiedBook.chapterIndex) !== JSON.stringify(book.chapterIndex)) {
+        await db.books.update(bookId, { chapterIndex: unifiedBook.chapterIndex });
+        console.log('[useUnifiedLibrary] 章节索引已保存');
+      }
+
+      // 原始数据摘要：旧书首次打开时计算并写回（持久化章节缓存据此判断数据是否变化）
+      unifiedBook.dataHash = book.dataHash;
+      if (!unifiedBook.dataHash) {
+        unifiedBook.dataHash = await PersistentChapterCache.digest(unifiedBook.rawData);
+        if (unifiedBook.dataHash) {
+          await db.books.update(bookId, { dataHash: unifiedBook.dataHash });
+        }
       }
 
       // 保留数据库ID
       unifiedBook.id = book.id;
 
+      // 书名、作者、封面和元数据以书架中保存（可能被用户编辑过）的为准
+      unifiedBook.title = book.title;
+      unifiedBook.author = book.author;
+      unifiedBook.cover = book.cover;
+      for (const key of METADATA_KEYS) {
+        if (book[key] !== undefined) {
+          Object.assign(unifiedBook, { [key]: book[key] });
+        }
+      }
+
       return unifiedBook;
     } catch (error) {
       console.error('[useUnifiedLibrary] 获取书籍失败:', error);
@@ -72,42 +122,69 @@ export function useUnifiedLibrary() {
     }
   }
 
+  /**
+   * 识别文件格式：先按扩展名，失败再读取文件头做魔数检测
+   */
+  async function detectAdapter(file: File): Promise<FormatAdapter | null> {
+    const header = new Uint8Array(await file.slice(0, AdapterRegistry.HEADER_SIZE).arrayBuffer());
+    return adapterRegistry.detect(file.name, header);
+  }
+
+  /**
+   * 预览解析结果（不写入数据库），用于导入前确认目录
+   * @throws 格式不支持或解析失败
+   */
+  async function previewBook(file: File, options?: ParseOptions): Promise<UnifiedBook> {
+    const adapter = await detectAdapter(file);
+    if (!adapter) {
+      throw new Error(`不支持的文件格式，请选择 ${adapterRegistry.describe()} 文件`);
+    }
+    return parserService.parse(adapter.format, await file.arrayBuffer(), file.name, options);
+  }
+
   /**
    * 导入书籍
+   * @param options - 解析选项（如 TXT 章节规则），解析后实际使用的规则随书保存
    */
-  async function importBook(file: File): Promise<ImportResult> {
+  async function importBook(file: File, options?: ParseOptions): Promise<ImportResult> {
     // 验证文件格式
-    if (!file.name.match(/\.(epub|txt)$/i)) {
-      const errorMsg = '不支持的文件格式，请选择 EPUB 或 TXT 文件';
+    const adapter = await detectAdapter(file);
+    if (!adapter) {
+      const errorMsg = `不支持的文件格式，请选择 ${adapterRegistry.describe()} 文件`;
       ElMessage.error(errorMsg);
       return { success: false, error: errorMsg };
     }
 
     importing.value = true;
     importProgress.value = 0;
+    const controller = new AbortController();
+    importController = controller;
 
     try {
-      console.log('[useUnifiedLibrary] 开始导入:', file.name);
+      console.log('[useUnifiedLibrary] 开始导入:', file.name, '格式:', adapter.format);
 
       // 读取文件
-      importProgress.value = 10;
       const arrayBuffer = await file.arrayBuffer();
-      importProgress.value = 30;
+      controller.signal.throwIfAborted();
+      importProgress.value = READ_PROGRESS;
 
-      // 使用适配器解析
-      let unifiedBook: UnifiedBook;
-      
-      if (file.name.endsWith('.txt')) {
-        unifiedBook = await TxtAdapter.parse(arrayBuffer, file.name);
-      } else {
-        unifiedBook = await EpubAdapter.parse(arrayBuffer, file.name);
-      }
-
-      importProgress.value = 70;
+      // 解析（支持的格式在 Worker 中进行），按解析进度更新
+      const unifiedBook = await parserService.parse(adapter.format, arrayBuffer, file.name, {
+        ...options,
+        signal: controller.signal,
+        onProgress: progress => {
+          importProgress.value = Math.round(READ_PROGRESS + progress * (PARSE_PROGRESS - READ_PROGRESS));
+        }
+      });
+      controller.signal.throwIfAborted();
 
       // 获取下一个可用的 ID
       const nextId = await getNextAvailableBookId();
       unifiedBook.id = nextId;
+      unifiedBook.dataHash = await PersistentChapterCache.digest(unifiedBook.rawData);
+
+      // ID 可能复用已删除书籍的 ID，清除残留的章节缓存
+      await PersistentChapterCache.clearBook(nextId);
       
       // 转换为 Book 并存储
       const book = unifiedBookToBook(unifiedBook);
@@ -130,16 +207,62 @@ export function useUnifiedLibrary() {
 
       return { success: true, bookId: nextId };
     } catch (error) {
+      if (controller.signal.aborted) {
+        console.log('[useUnifiedLibrary] 导入已取消:', file.name);
+        return { success: false, error: '导入已取消', cancelled: true };
+      }
       console.error('[useUnifiedLibrary] 导入失败:', error);
       const errorMsg = error instanceof Error ? error.message : '导入失败';
       ElMessage.error(errorMsg);
       return { success: false, error: errorMsg };
     } finally {
+      if (importController === controller) {
+        importController = null;
+      }
       importing.value = false;
       importProgress.value = 0;
     }
   }
 
+  /**
+   * 取消正在进行的导入（已写入数据库的书不受影响）
+   */
+  function cancelImport(): void {
+    importController?.abort();
+  }
+
+  /**
+   * 保存手动指定的文本编码（传 undefined 恢复自动检测）
+   * 调用方需重新调用 getUnifiedBook 以按新编码解析
+   */
+  async function setBookEncoding(bookId: number, encoding?: string): Promise<void> {
+    await db.books.update(bookId, { encoding });
+    console.log('[useUnifiedLibrary] 文本编码已更新:', bookId, encoding || '自动检测');
+  }
+
+  /**
+   * 保存手动指定的段落重排设置（传 undefined 恢复自动检测）
+   * 调用方需重新调用 getUnifiedBook 以按新设置加载章节
+   */
+  async function setBookReflow(bookId: number, reflow?: boolean): Promise<void> {
+    await db.books.update(bookId, { reflow });
+    console.log('[useUnifiedLibrary] 段落重排已更新:', bookId, reflow ?? '自动检测');
+  }
+
+  /**
+   * 保存书架中编辑的书籍信息（值为 undefined 的字段会被清除）
+   */
+  async function updateBookInfo(bookId: number, info: BookInfo): Promise<void> {
+    try {
+      await db.books.update(bookId, { ...info });
+      console.log('[useUnifiedLibrary] 书籍信息已更新:', bookId, info.title);
+      await loadBooks();
+    } catch (error) {
+      console.error('[useUnifiedLibrary] 书籍信息更新失败:', error);
+      throw error;
+    }
+  }
+
   /**
    * 删除书籍
    */
@@ -147,13 +270,29 @@ export function useUnifiedLibrary() {
     try {
       console.log('[useUnifiedLibrary] 开始删除书籍:', bookId);
 
-      // 删除书籍
-      await db.books.delete(bookId);
-      console.log('[useUnifiedLibrary] 书籍记录已删除');
+      // 在同一个事务中删除书籍及其关联数据：任何一步失败都整体回滚，
+      // 不会留下挂到之后复用该 ID 的新书上的书签、高亮等记录
+      await db.transaction('rw', [db.books, db.progress, db.bookmarks, db.highlights, db.parsedChapters], async () => {
+        // 删除书籍
+        await db.books.delete(bookId);
+        console.log('[useUnifiedLibrary] 书籍记录已删除');
+
+        // 删除相关进度
+        const deletedCount = await db.progress.where('bookId').equals(bookId).delete();
+        console.log('[useUnifiedLibrary] 进度记录已删除，数量:', deletedCount);
 
-      // 删除相关进度
-      const deletedCount = await db.progress.where('bookId').equals(bookId).delete();
-      console.log('[useUnifiedLibrary] 进度记录已删除，数量:', deletedCount);
+        // 删除书签（书籍 ID 会被新导入的书复用）
+        const bookmarkCount = await db.bookmarks.where('bookId').equals(bookId).delete();
+        console.log('[useUnifiedLibrary] 书签已删除，数量:', bookmarkCount);
+
+        // 删除高亮和批注
+        const highlightCount = await db.highlights.where('bookId').equals(bookId).delete();
+        console.log('[useUnifiedLibrary] 高亮已删除，数量:', highlightCount);
+
+        // 删除持久化的章节缓存
+        const cachedCount = await PersistentChapterCache.clearBook(bookId);
+        console.log('[useUnifiedLibrary] 章节缓存已删除，数量:', cachedCount);
+      });
 
       // 重新加载书籍列表
       await loadBooks();
@@ -172,7 +311,13 @@ export function useUnifiedLibrary() {
     importProgress,
     loadBooks,
     getUnifiedBook,
+    detectAdapter,
+    previewBook,
     importBook,
+    cancelImport,
+    setBookEncoding,
+    setBookReflow,
+    updateBookInfo,
     deleteBook
   };
 }
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { BookSearch, type SearchBatch } from './BookSearch';
+import { ChapterCache } from './ChapterCache';
+import { TxtAdapter } from '@/adapters/TxtAdapter';
+import type { UnifiedBook } from '@/types/book';
+
+const CHAPTER = { id: 2, title: '第三章', isLoaded: true, layers: [] };
+
+async function createBook(): Promise<UnifiedBook> {
+  const lines: string[] = [];
+  for (let i = 1; i <= 6; i++) {
+    lines.push(`第${i}章 标题`, i % 2 === 0 ? `他们在桥上相遇，Bridge ${i}。` : '雨一直下。');
+  }
+  const data = new TextEncoder().encode(lines.join('\n')).buffer as ArrayBuffer;
+  return TxtAdapter.parse(data, 'novel.txt');
+}
+
+describe('BookSearch', () => {
+  it('builds patterns for case, whole-word and regex options', () => {
+    expect(BookSearch.pattern('a.b').test('axb')).toBe(false);
+    expect(BookSearch.pattern('a.b', { regex: true }).test('axb')).toBe(true);
+    expect(BookSearch.pattern('Cat').test('cat')).toBe(true);
+    expect(BookSearch.pattern('Cat', { caseSensitive: true }).test('cat')).toBe(false);
+    expect(BookSearch.pattern('cat', { wholeWord: true }).test('concatenate')).toBe(false);
+    expect(BookSearch.pattern('cat', { wholeWord: true }).test('a cat.')).toBe(true);
+    expect(() => BookSearch.pattern('(', { regex: true })).toThrow(SyntaxError);
+  });
+
+  it('finds matches across chunked layers by global paragraph index', () => {
+    const results = BookSearch.searchLayers([
+      { paragraphs: ['开头', '桥'], startIndex: 0 },
+      { paragraphs: ['图注'], startIndex: 3, image: 'blob:x' },
+      { paragraphs: ['x'.repeat(40) + '桥上' + 'y'.repeat(40)], startIndex: 4 }
+    ], BookSearch.pattern('桥'), CHAPTER);
+
+    expect(results.map(r => r.paragraphIndex)).toEqual([1, 4]);
+    expect(results[0]).toMatchObject({ chapterId: 2, chapterTitle: '第三章', paragraphOffset: 0 });
+    expect(results[1].paragraphOffset).toBeCloseTo(40 / 82);
+    expect(results[1].snippet).toEqual({ before: `…${'x'.repeat(30)}`, match: '桥', after: `上${'y'.repeat(29)}…` });
+  });
+
+  it('streams one batch per chapter without caching the scanned chapters', async () => {
+    const book = await createBook();
+    const cache = new ChapterCache(book, { windowBefore: 0, windowAfter: 0 });
+    await cache.getChapter(0);
+
+    const batches: SearchBatch[] = [];
+    for await (const batch of BookSearch.search(cache, book.chapters, BookSearch.pattern('bridge'))) {
+      batches.push(batch);
+    }
+
+    expect(batches.map(b => b.scanned)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(batches.flatMap(b => b.results).map(r => r.chapterId)).toEqual([1, 3, 5]);
+    expect(cache.getStats().cachedChapters).toEqual([0]);
+    expect(book.chapters[3].isLoaded).toBe(false);
+  });
+
+  it('stops when the search is aborted', async () => {
+    const book = await createBook();
+    const cache = new ChapterCache(book);
+    const controller = new AbortController();
+    const scanned: number[] = [];
+
+    const run = async () => {
+      for await (const batch of BookSearch.search(cache, book.chapters, BookSearch.pattern('雨'), controller.signal)) {
+        scanned.push(batch.scanned);
+        if (batch.scanned === 2) controller.abort();
+      }
+    };
+
+    await expect(run()).rejects.toMatchObject({ name: 'AbortError' });
+    expect(scanned).toEqual([1, 2]);
+  });
+});
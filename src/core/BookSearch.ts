@@ -0,0 +1,145 @@
+/**
+ * 书内全文搜索
+ * 经由 ChapterCache 逐章扫描：未缓存的章节加载后用完即释放，不会把全书留在内存中；
+ * 每扫描完一章产出一批结果，超长的 TXT 也能边搜索边显示
+ *
+ * 匹配在 paragraphs 的纯文本上进行，结果按段落全局索引定位
+ */
+
+import type { ContentLayer, UnifiedChapter } from '@/types/book';
+import type { ChapterCache } from './ChapterCache';
+
+export interface SearchOptions {
+  caseSensitive?: boolean;
+  wholeWord?: boolean;
+  regex?: boolean;          // 按正则表达式搜索（否则按字面文本）
+}
+
+export interface SearchResult {
+  chapterId: number;
+  chapterTitle: string;
+  paragraphIndex: number;   // 段落全局索引
+  paragraphOffset: number;  // 匹配在段落内的位置（0-1），与阅读进度的段落内位置含义相同
+  snippet: {
+    before: string;
+    match: string;
+    after: string;
+  };
+}
+
+/**
+ * 扫描完一章产出的一批结果
+ */
+export interface SearchBatch {
+  results: SearchResult[];
+  scanned: number;          // 已扫描的章节数
+  total: number;
+  truncated: boolean;       // 结果达到上限，搜索提前结束
+}
+
+export class BookSearch {
+  /**
+   * 结果上限（超过后停止搜索）
+   */
+  static readonly MAX_RESULTS = 1000;
+
+  // 摘录中匹配前后保留的字数
+  private static readonly SNIPPET_CONTEXT = 30;
+
+  /**
+   * 构造搜索用的正则
+   * 全词匹配按 Unicode 字母、数字判断边界（中文没有词边界，整段连续的汉字才算一个词）
+   * @throws SyntaxError 正则表达式无效
+   */
+  static pattern(query: string, options: SearchOptions = {}): RegExp {
+    let source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (options.wholeWord) {
+      source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+    }
+    return new RegExp(source, options.caseSensitive ? 'gu' : 'giu');
+  }
+
+  /**
+   * 逐章搜索全书，每扫描完一章产出一批结果
+   * 取消时以 AbortError 结束；单章加载失败时跳过该章
+   */
+  static async *search(
+    cache: ChapterCache,
+    chapters: UnifiedChapter[],
+    pattern: RegExp,
+    signal?: AbortSignal
+  ): AsyncGenerator<SearchBatch> {
+    let found = 0;
+
+    for (let i = 0; i < chapters.length; i++) {
+      signal?.throwIfAborted();
+      const chapter = chapters[i];
+
+      let results: SearchResult[] = [];
+      try {
+        results = await cache.withChapter(
+          chapter.id,
+          layers => this.searchLayers(layers, pattern, chapter, this.MAX_RESULTS - found),
+          signal
+        );
+      } catch (error) {
+        signal?.throwIfAborted();
+        console.warn('[BookSearch] 章节搜索失败，跳过:', chapter.id, error);
+      }
+
+      found += results.length;
+      const truncated = found >= this.MAX_RESULTS;
+      yield { results, scanned: i + 1, total: chapters.length, truncated };
+      if (truncated) return;
+    }
+  }
+
+  /**
+   * 在一章的 layers 中搜索（段落可以分布在多个 layer 中）
+   * @param limit - 最多返回的结果数
+   */
+  static searchLayers(layers: ContentLayer[], pattern: RegExp, chapter: UnifiedChapter, limit = Infinity): SearchResult[] {
+    const results: SearchResult[] = [];
+    const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+
+    for (const layer of layers) {
+      for (let i = 0; i < layer.paragraphs.length; i++) {
+        const text = layer.paragraphs[i];
+        regex.lastIndex = 0;
+
+        for (let match = regex.exec(text); match; match = regex.exec(text)) {
+          // 空匹配（如 /a*/）不算结果，跳过一个字符避免死循环
+          if (match[0].length === 0) {
+            regex.lastIndex++;
+            continue;
+          }
+
+          results.push({
+            chapterId: chapter.id,
+            chapterTitle: chapter.title,
+            paragraphIndex: layer.startIndex + i,
+            paragraphOffset: match.index / text.length,
+            snippet: this.snippet(text, match.index, match[0].length)
+          });
+          if (results.length >= limit) return results;
+        }
+      }
+    }
+    return results;
+  }
+
+  /**
+   * 匹配前后各取一段文字作为摘录，空白折叠为一个空格
+   */
+  private static snippet(text: string, index: number, length: number): SearchResult['snippet'] {
+    const start = Math.max(0, index - this.SNIPPET_CONTEXT);
+    const end = Math.min(text.length, index + length + this.SNIPPET_CONTEXT);
+    const collapse = (value: string) => value.replace(/\s+/g, ' ');
+
+    return {
+      before: (start > 0 ? '…' : '') + collapse(text.slice(start, index)).trimStart(),
+      match: collapse(text.slice(index, index + length)),
+      after: collapse(text.slice(index + length, end)).trimEnd() + (end < text.length ? '…' : '')
+    };
+  }
+}
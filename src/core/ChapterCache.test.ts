@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ChapterCache } from './ChapterCache';
+import { TxtAdapter } from '@/adapters/TxtAdapter';
+import type { UnifiedBook } from '@/types/book';
+
+const CHAPTER_COUNT = 8;
+
+// 每章正文长度相同，估算占用相同
+async function createBook(): Promise<UnifiedBook> {
+  const lines: string[] = [];
+  for (let i = 1; i <= CHAPTER_COUNT; i++) {
+    lines.push(`第${i}章 标题`, `这是第${i}章的正文内容。`.repeat(20));
+  }
+  const data = new TextEncoder().encode(lines.join('\n')).buffer as ArrayBuffer;
+  return TxtAdapter.parse(data, 'novel.txt');
+}
+
+describe('ChapterCache', () => {
+  it('estimates text and image sizes', () => {
+    expect(ChapterCache.estimateSize([
+      { paragraphs: ['ab', 'cde'], startIndex: 0, image: 'blob:x', imageSize: 1000 },
+      { paragraphs: ['f'], startIndex: 3, runs: [[{ text: 'f' }]] }
+    ])).toBe(5 * 2 + 1000 + 1 * 2 + 1 * 2);
+  });
+
+  it('evicts least recently used chapters outside the reading window when over budget', async () => {
+    const book = await createBook();
+    const chapterSize = ChapterCache.estimateSize(await TxtAdapter.loadChapter(book, 0));
+    const cache = new ChapterCache(book, { maxBytes: chapterSize * 2.5, windowBefore: 0, windowAfter: 0 });
+
+    await cache.getChapter(0);
+    await cache.getChapter(1);
+    await cache.getChapter(0);
+    await cache.getChapter(2);
+
+    const stats = cache.getStats();
+    expect(stats.cachedChapters.sort()).toEqual([0, 2]);
+    expect(stats.bytes).toBe(chapterSize * 2);
+    expect(stats.evictions).toBe(1);
+    expect(stats.hits).toBe(1);
+    expect(stats.misses).toBe(3);
+    expect(stats.hitRatio).toBe(0.25);
+    expect(book.chapters[1].isLoaded).toBe(false);
+    expect(book.chapters[1].layers).toEqual([]);
+  });
+
+  it('never evicts the pinned window, even when it exceeds the budget', async () => {
+    const book = await createBook();
+    const cache = new ChapterCache(book, { maxBytes: 1, windowBefore: 1, windowAfter: 1 });
+
+    await cache.getChapter(3);
+    await vi.waitFor(() => expect(cache.getStats().size).toBe(3));
+    expect(cache.getStats().pinnedChapters.sort()).toEqual([2, 3, 4]);
+
+    // 预加载窗口外的章节不会挤掉当前章
+    cache.prefetch([0]);
+    await vi.waitFor(() => expect(cache.getStats().evictions).toBe(1));
+    expect(cache.getStats().cachedChapters.sort()).toEqual([2, 3, 4]);
+
+    // 阅读窗口移动后，旧窗口的章节可以被清理
+    await cache.getChapter(6);
+    await vi.waitFor(() => expect(cache.getStats().cachedChapters.sort()).toEqual([5, 6, 7]));
+    expect(cache.getStats().bytes).toBeGreaterThan(1);
+  });
+
+  it('rejects a cancelled load without caching the chapter', async () => {
+    const book = await createBook();
+    const cache = new ChapterCache(book, { windowBefore: 0, windowAfter: 0 });
+    const controller = new AbortController();
+
+    const promise = cache.getChapter(2, controller.signal);
+    controller.abort();
+
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+    expect(cache.getStats().cachedChapters).toEqual([]);
+    expect(book.chapters[2].isLoaded).toBe(false);
+  });
+
+  it('cancels pending prefetches when the reading window moves', async () => {
+    const book = await createBook();
+    const cache = new ChapterCache(book, { windowBefore: 0, windowAfter: 2 });
+
+    await cache.getChapter(0);
+    await cache.getChapter(5);
+
+    await vi.waitFor(() => expect(cache.getStats().size).toBe(4));
+    // 留出时间让未取消的预加载完成
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect(cache.getStats().cachedChapters.sort()).toEqual([0, 5, 6, 7]);
+  });
+});
@@ -1,52 +1,189 @@
 /**
  * 滑动窗口章节缓存管理器
- * 实现 LRU (最近最少使用) 算法
- * 在内存中仅保留：当前章 + 前1章 + 后2章
+ * 按内存预算做 LRU (最近最少使用) 清理：
+ * - 每章按文本长度和图片字节数估算内存占用，总量超过预算时清理最久未访问的章节
+ * - 当前章及其前后章节（默认前1章 + 后2章）构成受保护的阅读窗口，永远不会被清理（即使窗口本身超过预算）
+ * - 章节加载可以通过 AbortSignal 取消；阅读窗口移动时取消尚未完成的预加载
  */
 
 import type { UnifiedBook, ContentLayer } from '@/types/book';
-import { TxtAdapter } from '@/adapters/TxtAdapter';
-import { EpubAdapter } from '@/adapters/EpubAdapter';
+import { adapterRegistry } from '@/adapters/AdapterRegistry';
+import { LayerBuilder } from '@/adapters/LayerBuilder';
+import { parserService } from './ParserService';
+import { PersistentChapterCache } from './PersistentChapterCache';
 
 interface CacheEntry {
   chapterId: number;
   layers: ContentLayer[];
-  lastAccess: number;
+  lastAccess: number; // 访问序号，越大越新（同一毫秒内的访问也能区分先后）
+  size: number; // 估算的内存占用（字节）
+}
+
+export interface ChapterCacheOptions {
+  maxBytes?: number;     // 内存预算（字节），默认 64MB
+  windowBefore?: number; // 当前章之前受保护（并预加载）的章节数，默认 1
+  windowAfter?: number;  // 当前章之后受保护（并预加载）的章节数，默认 2
+}
+
+export interface ChapterCacheStats {
+  size: number;             // 已缓存章节数
+  bytes: number;            // 已缓存章节的估算内存占用
+  maxBytes: number;
+  cachedChapters: number[];
+  pinnedChapters: number[]; // 受保护的阅读窗口
+  hits: number;
+  misses: number;
+  hitRatio: number;         // 命中率（0-1），没有请求时为 0
+  evictions: number;
 }
 
 export class ChapterCache {
+  /**
+   * 默认阅读窗口（滚动视图按同样的范围渲染章节，渲染中的章节不会被清理）
+   */
+  static readonly WINDOW_BEFORE = 1;
+  static readonly WINDOW_AFTER = 2;
+
+  private static readonly DEFAULT_MAX_BYTES = 64 * 1024 * 1024;
+  // 未记录字节数的图片按 200KB 估算
+  private static readonly UNKNOWN_IMAGE_BYTES = 200 * 1024;
+
   private cache: Map<number, CacheEntry> = new Map();
-  private readonly MAX_CACHE_SIZE = 5; // 最多缓存5章
   private book: UnifiedBook;
-  private prefetchQueue: Set<number> = new Set();
-
-  constructor(book: UnifiedBook) {
+  private prefetchQueue: Set<number> = new Set(); // 已调度或正在预加载的章节
+  private prefetchController = new AbortController();
+  private readonly maxBytes: number;
+  private readonly windowBefore: number;
+  private readonly windowAfter: number;
+  private currentChapterId: number | null = null;
+  private accessClock = 0;
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(book: UnifiedBook, options: ChapterCacheOptions = {}) {
     this.book = book;
+    this.maxBytes = options.maxBytes ?? ChapterCache.DEFAULT_MAX_BYTES;
+    this.windowBefore = options.windowBefore ?? ChapterCache.WINDOW_BEFORE;
+    this.windowAfter = options.windowAfter ?? ChapterCache.WINDOW_AFTER;
+  }
+
+  /**
+   * 估算章节内容的内存占用（字节）
+   * 字符串按 UTF-16 每字符 2 字节计算，富文本片段的文本另计一份，图片按 Blob 字节数计算
+   */
+  static estimateSize(layers: ContentLayer[]): number {
+    let bytes = 0;
+    for (const layer of layers) {
+      for (const paragraph of layer.paragraphs) {
+        bytes += paragraph.length * 2;
+      }
+      for (const runs of layer.runs || []) {
+        for (const run of runs || []) {
+          bytes += run.text.length * 2;
+        }
+      }
+      if (layer.image) {
+        bytes += layer.imageSize ?? this.UNKNOWN_IMAGE_BYTES;
+      }
+    }
+    return bytes;
   }
 
   /**
    * 获取章节内容（带缓存）
+   * 请求的章节成为当前章，阅读窗口随之移动，旧窗口尚未完成的预加载被取消
+   *
+   * @param signal - 取消加载：以 AbortError 拒绝，章节不会存入缓存
    */
-  async getChapter(chapterId: number): Promise<ContentLayer[]> {
+  async getChapter(chapterId: number, signal?: AbortSignal): Promise<ContentLayer[]> {
     console.log('[ChapterCache] 请求章节:', chapterId);
 
-    // 检查缓存
+    this.currentChapterId = chapterId;
+    this.cancelPrefetch();
+    const layers = await this.readChapter(chapterId, signal);
+
+    // 触发预加载
+    this.schedulePrefetch(chapterId);
+
+    return layers;
+  }
+
+  /**
+   * 读取章节内容但不移动阅读窗口（滚动视图渲染当前章附近的章节时使用）
+   */
+  async readChapter(chapterId: number, signal?: AbortSignal): Promise<ContentLayer[]> {
     if (this.cache.has(chapterId)) {
-      const entry = this.cache.get(chapterId)!;
-      entry.lastAccess = Date.now();
+      this.hits++;
+    } else {
+      this.misses++;
+    }
+
+    return this.fetchChapter(chapterId, signal);
+  }
+
+  /**
+   * 一次性处理章节内容（全文搜索逐章扫描时使用）
+   * 已缓存的章节直接使用；未缓存的章节加载后不存入缓存，处理完立即释放，
+   * 扫描全书时内存占用不随章节数增长，也不会挤掉阅读窗口附近的缓存
+   */
+  async withChapter<T>(chapterId: number, use: (layers: ContentLayer[]) => T, signal?: AbortSignal): Promise<T> {
+    const cached = this.cache.get(chapterId);
+    if (cached) {
+      return use(cached.layers);
+    }
+
+    // 一次性读取不写入持久化缓存：既避免扫描全书时把每一章写入 IndexedDB，
+    // 也避免后台写入读取图片时 Blob URL 已被下面释放
+    const layers = await this.loadChapter(chapterId, signal, false);
+    try {
+      return use(layers);
+    } finally {
+      // 加载期间同一章节可能已由其他请求存入缓存（适配器可能返回同一份 layers）
+      if (this.cache.get(chapterId)?.layers !== layers) {
+        LayerBuilder.revokeImages(layers);
+      }
+    }
+  }
+
+  /**
+   * 从缓存读取或加载章节（预加载直接经由这里，不计入命中率）
+   */
+  private async fetchChapter(chapterId: number, signal?: AbortSignal): Promise<ContentLayer[]> {
+    // 检查缓存
+    const cached = this.cache.get(chapterId);
+    if (cached) {
+      cached.lastAccess = ++this.accessClock;
       console.log('[ChapterCache] 命中缓存');
-      return entry.layers;
+      // 阅读窗口可能已移动，窗口外的章节可以清理了
+      this.evictIfNeeded();
+      return cached.layers;
     }
 
-    // 缓存未命中，加载章节
-    const layers = await this.loadChapter(chapterId);
+    // 缓存未命中，加载章节（取消时由适配器释放已创建的图片）
+    const layers = await this.loadChapter(chapterId, signal);
+
+    // 加载期间同一章节已由其他请求（如预加载）存入缓存：沿用已缓存的内容
+    // （适配器对已加载的章节直接返回缓存中的 layers，此时不能释放）
+    const loaded = this.cache.get(chapterId);
+    if (loaded) {
+      if (layers !== loaded.layers) {
+        LayerBuilder.revokeImages(layers);
+      }
+      loaded.lastAccess = ++this.accessClock;
+      return loaded.layers;
+    }
 
     // 存入缓存
+    const size = ChapterCache.estimateSize(layers);
     this.cache.set(chapterId, {
       chapterId,
       layers,
-      lastAccess: Date.now()
+      lastAccess: ++this.accessClock,
+      size
     });
+    this.bytes += size;
 
     // 更新书籍对象
     this.book.chapters[chapterId].layers = layers;
@@ -55,99 +192,103 @@ export class ChapterCache {
     // 清理缓存
     this.evictIfNeeded();
 
-    // 触发预加载
-    this.schedulePrefetch(chapterId);
-
     return layers;
   }
 
   /**
-   * 加载章节内容
+   * 加载章节内容（先查 IndexedDB 中的持久化缓存，未命中时经由解析服务解析）
+   * @param persist - 解析结果是否写入持久化缓存
    */
-  private async loadChapter(chapterId: number): Promise<ContentLayer[]> {
+  private async loadChapter(chapterId: number, signal?: AbortSignal, persist = true): Promise<ContentLayer[]> {
     console.log('[ChapterCache] 加载章节:', chapterId);
 
-    if (this.book.format === 'txt') {
-      return await TxtAdapter.loadChapter(this.book, chapterId);
-    } else {
-      return await EpubAdapter.loadChapter(this.book, chapterId);
-    }
+    return await PersistentChapterCache.load(this.book, chapterId, signal, { persist });
+  }
+
+  /**
+   * 阅读窗口：当前章 + 前 windowBefore 章 + 后 windowAfter 章
+   */
+  private isPinned(chapterId: number): boolean {
+    if (this.currentChapterId === null) return false;
+    return chapterId >= this.currentChapterId - this.windowBefore
+      && chapterId <= this.currentChapterId + this.windowAfter;
   }
 
   /**
    * LRU 缓存清理
-   * 当缓存超过限制时，清理最久未访问的章节
+   * 当估算占用超过预算时，依次清理阅读窗口之外最久未访问的章节
    */
   private evictIfNeeded(): void {
-    if (this.cache.size <= this.MAX_CACHE_SIZE) {
-      return;
-    }
-
-    console.log('[ChapterCache] 缓存已满，执行 LRU 清理');
-
-    // 找到最久未访问的章节
-    let oldestChapterId: number | null = null;
-    let oldestTime = Infinity;
-
-    for (const [chapterId, entry] of this.cache.entries()) {
-      if (entry.lastAccess < oldestTime) {
-        oldestTime = entry.lastAccess;
-        oldestChapterId = chapterId;
+    while (this.bytes > this.maxBytes) {
+      // 找到窗口外最久未访问的章节
+      let oldest: CacheEntry | null = null;
+      for (const entry of this.cache.values()) {
+        if (!this.isPinned(entry.chapterId) && (!oldest || entry.lastAccess < oldest.lastAccess)) {
+          oldest = entry;
+        }
       }
-    }
 
-    if (oldestChapterId !== null) {
-      console.log('[ChapterCache] 清理章节:', oldestChapterId);
-      this.cache.delete(oldestChapterId);
+      // 只剩阅读窗口时允许超出预算
+      if (!oldest) return;
 
-      // 清理书籍对象中的数据
-      const chapter = this.book.chapters[oldestChapterId];
-      if (chapter) {
-        chapter.layers = [];
-        chapter.isLoaded = false;
-      }
-
-      // 清理图片 Blob URL
-      this.cleanupBlobUrls(oldestChapterId);
+      console.log('[ChapterCache] 超出内存预算，清理章节:', oldest.chapterId);
+      this.evict(oldest);
     }
   }
 
   /**
-   * 清理章节中的 Blob URL
+   * 移出缓存并释放章节数据
    */
-  private cleanupBlobUrls(chapterId: number): void {
-    const chapter = this.book.chapters[chapterId];
-    if (!chapter) return;
-
-    for (const layer of chapter.layers) {
-      if (layer.image && layer.image.startsWith('blob:')) {
-        URL.revokeObjectURL(layer.image);
-      }
+  private evict(entry: CacheEntry): void {
+    this.cache.delete(entry.chapterId);
+    this.bytes -= entry.size;
+    this.evictions++;
+
+    // 清理图片 Blob URL
+    LayerBuilder.revokeImages(entry.layers);
+
+    // 清理书籍对象中的数据
+    const chapter = this.book.chapters[entry.chapterId];
+    if (chapter) {
+      chapter.layers = [];
+      chapter.isLoaded = false;
     }
   }
 
   /**
    * 调度预加载
-   * 预加载：当前章 + 前1章 + 后2章
+   * 预加载阅读窗口内的其余章节（默认前1章 + 后2章）
    */
   private schedulePrefetch(currentChapterId: number): void {
     const prefetchIds: number[] = [];
 
-    // 前1章
-    if (currentChapterId > 0) {
-      prefetchIds.push(currentChapterId - 1);
+    // 前面的章节
+    for (let i = 1; i <= this.windowBefore; i++) {
+      if (currentChapterId - i >= 0) {
+        prefetchIds.push(currentChapterId - i);
+      }
     }
 
-    // 后2章
-    for (let i = 1; i <= 2; i++) {
+    // 后面的章节
+    for (let i = 1; i <= this.windowAfter; i++) {
       const nextId = currentChapterId + i;
       if (nextId < this.book.chapters.length) {
         prefetchIds.push(nextId);
       }
     }
 
+    this.prefetch(prefetchIds);
+  }
+
+  /**
+   * 在空闲时预加载指定章节（已缓存或已在队列中的章节会被跳过）
+   * 阅读窗口移动或清空缓存时，尚未完成的预加载会被取消
+   */
+  prefetch(chapterIds: number[]): void {
     // 过滤已缓存的章节
-    const toFetch = prefetchIds.filter(id => !this.cache.has(id) && !this.prefetchQueue.has(id));
+    const toFetch = chapterIds.filter(id =>
+      id >= 0 && id < this.book.chapters.length && !this.cache.has(id) && !this.prefetchQueue.has(id)
+    );
 
     if (toFetch.length === 0) {
       return;
@@ -155,34 +296,56 @@ export class ChapterCache {
 
     console.log('[ChapterCache] 调度预加载:', toFetch);
 
+    toFetch.forEach(id => this.prefetchQueue.add(id));
+    const signal = this.prefetchController.signal;
+
     // 使用 requestIdleCallback 或 setTimeout 异步预加载
     if ('requestIdleCallback' in window) {
-      requestIdleCallback(() => this.prefetchChapters(toFetch));
+      requestIdleCallback(() => this.prefetchChapters(toFetch, signal));
     } else {
-      setTimeout(() => this.prefetchChapters(toFetch), 100);
+      setTimeout(() => this.prefetchChapters(toFetch, signal), 100);
     }
   }
 
   /**
    * 预加载章节
    */
-  private async prefetchChapters(chapterIds: number[]): Promise<void> {
+  private async prefetchChapters(chapterIds: number[], signal: AbortSignal): Promise<void> {
     for (const chapterId of chapterIds) {
-      if (this.cache.has(chapterId)) continue;
-
-      this.prefetchQueue.add(chapterId);
+      // 已取消：队列已由 cancelPrefetch 清空
+      if (signal.aborted) return;
 
       try {
-        console.log('[ChapterCache] 预加载章节:', chapterId);
-        await this.getChapter(chapterId);
+        if (!this.cache.has(chapterId)) {
+          console.log('[ChapterCache] 预加载章节:', chapterId);
+          await this.fetchChapter(chapterId, signal);
+        }
       } catch (error) {
+        if (signal.aborted) {
+          console.log('[ChapterCache] 预加载已取消:', chapterId);
+          return;
+        }
         console.error('[ChapterCache] 预加载失败:', chapterId, error);
       } finally {
-        this.prefetchQueue.delete(chapterId);
+        if (!signal.aborted) {
+          this.prefetchQueue.delete(chapterId);
+        }
       }
     }
   }
 
+  /**
+   * 取消尚未完成的预加载（已加载的章节保留在缓存中）
+   */
+  private cancelPrefetch(): void {
+    if (this.prefetchQueue.size === 0) return;
+
+    console.log('[ChapterCache] 取消预加载:', Array.from(this.prefetchQueue));
+    this.prefetchController.abort();
+    this.prefetchController = new AbortController();
+    this.prefetchQueue.clear();
+  }
+
   /**
    * 清空缓存
    */
@@ -190,22 +353,36 @@ export class ChapterCache {
     console.log('[ChapterCache] 清空缓存');
 
     // 清理所有 Blob URL
-    for (const [chapterId] of this.cache.entries()) {
-      this.cleanupBlobUrls(chapterId);
+    for (const entry of this.cache.values()) {
+      LayerBuilder.revokeImages(entry.layers);
     }
 
+    this.cancelPrefetch();
     this.cache.clear();
-    this.prefetchQueue.clear();
+    this.bytes = 0;
+
+    // 释放解析服务中的会话，并通知适配器释放该书持有的资源
+    parserService.release(this.book);
+    if (adapterRegistry.has(this.book.format)) {
+      adapterRegistry.get(this.book.format).dispose?.(this.book);
+    }
   }
 
   /**
    * 获取缓存统计信息
    */
-  getStats(): { size: number; maxSize: number; cachedChapters: number[] } {
+  getStats(): ChapterCacheStats {
+    const requests = this.hits + this.misses;
     return {
       size: this.cache.size,
-      maxSize: this.MAX_CACHE_SIZE,
-      cachedChapters: Array.from(this.cache.keys())
+      bytes: this.bytes,
+      maxBytes: this.maxBytes,
+      cachedChapters: Array.from(this.cache.keys()),
+      pinnedChapters: Array.from(this.cache.keys()).filter(id => this.isPinned(id)),
+      hits: this.hits,
+      misses: this.misses,
+      hitRatio: requests > 0 ? this.hits / requests : 0,
+      evictions: this.evictions
     };
   }
 }
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { EncodingDetector } from './EncodingDetector';
+
+function fromHex(hex: string): Uint8Array {
+  return new Uint8Array(hex.match(/../g)!.map(byte => parseInt(byte, 16)));
+}
+
+// 从前有一座山，山里有一座庙。庙里有个老和尚在给小和尚讲故事。
+const GBK = 'b4d3c7b0d3d0d2bbd7f9c9bda3acc9bdc0efd3d0d2bbd7f9c3eda1a3c3edc0efd3d0b8f6c0cfbacdc9d0d4dab8f8d0a1bacdc9d0bdb2b9cacac2a1a3';
+
+// 從前有一座山，山裡有一座廟。廟裡有個老和尚在給小和尚講故事。
+const BIG5 = 'b171ab65a6b3a440ae79a473a141a473b8cca6b3a440ae79bc71a143bc71b8cca6b3add3a6d1a94da97ca662b5b9a470a94da97cc1bfac47a8c6a143';
+
+// 吾輩は猫である。名前はまだ無い。どこで生れたかとんと見当がつかぬ。
+const SHIFT_JIS = '8ce1947982cd944c82c582a082e9814296bc914f82cd82dc82be96b382a2814282c782b182c590b682ea82bd82a982c682f182c68ca9939682aa82c282a982ca8142';
+
+describe('EncodingDetector', () => {
+  it('should trust byte order marks', () => {
+    const utf16 = new Uint8Array([0xff, 0xfe, 0x2d, 0x4e, 0x87, 0x65]);
+    const result = EncodingDetector.decode(utf16);
+
+    expect(result).toMatchObject({ encoding: 'utf-16le', confidence: 1, bom: true });
+    expect(result.text).toBe('中文');
+  });
+
+  it('should detect UTF-16 without a BOM from zero bytes', () => {
+    const bytes = new Uint8Array(Array.from('Chapter 1', c => [0, c.charCodeAt(0)]).flat());
+    const result = EncodingDetector.decode(bytes);
+
+    expect(result.encoding).toBe('utf-16be');
+    expect(result.text).toBe('Chapter 1');
+  });
+
+  it('should accept UTF-8 cut in the middle of a character', () => {
+    const bytes = new TextEncoder().encode('中'.repeat(30000));
+    expect(EncodingDetector.detect(bytes)).toEqual({ encoding: 'utf-8', confidence: 1, bom: false });
+  });
+
+  it.each([
+    ['gb18030', GBK, '从前有一座山'],
+    ['big5', BIG5, '從前有一座山'],
+    ['shift_jis', SHIFT_JIS, '吾輩は猫である']
+  ])('should score legacy CJK text as %s', (encoding, hex, prefix) => {
+    const result = EncodingDetector.decode(fromHex(hex));
+
+    expect(result.encoding).toBe(encoding);
+    expect(result.confidence).toBeGreaterThan(0.5);
+    expect(result.text.startsWith(prefix)).toBe(true);
+  });
+
+  it('should check the whole file before trusting UTF-8', () => {
+    // 开头 100KB 纯 ASCII，之后才出现 Big5 正文
+    const preface = new TextEncoder().encode('Project preface line.\n'.repeat(5000));
+    const body = fromHex(BIG5);
+    const bytes = new Uint8Array(preface.length + body.length);
+    bytes.set(preface);
+    bytes.set(body, preface.length);
+
+    const result = EncodingDetector.decode(bytes);
+    expect(result.encoding).toBe('big5');
+    expect(result.text.endsWith('從前有一座山，山裡有一座廟。廟裡有個老和尚在給小和尚講故事。')).toBe(true);
+  });
+
+  it('should decode with a forced encoding', () => {
+    const result = EncodingDetector.decode(fromHex(GBK), 'big5');
+
+    expect(result).toMatchObject({ encoding: 'big5', confidence: 1, bom: false });
+    expect(result.text.startsWith('从前')).toBe(false);
+  });
+});
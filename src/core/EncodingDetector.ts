@@ -0,0 +1,254 @@
+/**
+ * 文本编码检测器
+ * 供 TXT / HTML / 上传转码等纯文本场景共用
+ *
+ * 检测顺序：
+ * 1. BOM（UTF-8 / UTF-16 LE / UTF-16 BE）
+ * 2. 无 BOM 的 UTF-16（按奇偶位置的 0x00 字节比例判断）
+ * 3. UTF-8 严格解码整个文件（开头只有 ASCII、后面才出现 GBK 等字节的文件不会被误判）
+ * 4. 从第一个非 ASCII 字节开始采样，对候选多字节编码（GB18030 / Big5 / Shift-JIS）分别解码，按字符统计打分
+ *
+ * 返回的 confidence 为 0~1，BOM 和合法 UTF-8 视为确定
+ */
+
+/**
+ * 编码选项（用于"按…编码重新解码"菜单）
+ */
+export interface EncodingOption {
+  id: string;
+  name: string;
+}
+
+/**
+ * 检测结果
+ */
+export interface EncodingDetection {
+  encoding: string;     // TextDecoder 可用的编码标签
+  confidence: number;   // 置信度 0~1
+  bom: boolean;         // 是否由 BOM 确定
+}
+
+/**
+ * 解码结果
+ */
+export interface DecodedText extends EncodingDetection {
+  text: string;
+}
+
+export class EncodingDetector {
+  /**
+   * 支持的编码（第一个为默认值）
+   */
+  static readonly ENCODINGS: readonly EncodingOption[] = [
+    { id: 'utf-8', name: 'UTF-8' },
+    { id: 'gb18030', name: '简体中文（GB18030 / GBK）' },
+    { id: 'big5', name: '繁体中文（Big5）' },
+    { id: 'shift_jis', name: '日文（Shift-JIS）' },
+    { id: 'utf-16le', name: 'UTF-16 LE' },
+    { id: 'utf-16be', name: 'UTF-16 BE' }
+  ];
+
+  /**
+   * 参与统计打分的候选编码（按优先级排列，得分相同时取靠前者）
+   */
+  private static readonly CANDIDATES = ['gb18030', 'big5', 'shift_jis'];
+
+  /**
+   * 检测采样长度（字节）
+   */
+  private static readonly SAMPLE_SIZE = 64 * 1024;
+
+  /**
+   * 无 BOM UTF-16 判定阈值：一侧 0x00 比例不低于 MIN，另一侧不高于 MAX
+   */
+  private static readonly UTF16_ZERO_MIN = 0.3;
+  private static readonly UTF16_ZERO_MAX = 0.05;
+
+  /**
+   * 单字符最高得分（用于把平均分归一化为置信度）
+   */
+  private static readonly MAX_CHAR_SCORE = 3;
+
+  /**
+   * 常用汉字（简体、繁体及日文常用字形），误解码产生的多为生僻字
+   */
+  private static readonly COMMON_CHARS = new Set(
+    '的一是不了在人有我他这个们中来上大为和国地到以说时要就出会可也你对生能而子那得于着下自之年过发后作里用道行所然家种事成方多经么去法学如都同现当没动面起看定天分还进好小部其些主样理心她本前开但因只从想实日军者意无力它与长把机十民第公此已工使情明性知全三又关点正业外将两高间由问很最重并物手应战向头文体政美相见被利什二等产或新己制身果加西斯月话合回特代内信表化老给世位次度门任常先海通教儿原东声提立及比员解水名真论处走义各入几口认条平系气题活尔更别打女变四神总何电数安少报才结反受目太量再感建务做接必场件计管期市直德资命山金指克许统区保至队形社便空决治展马科司五基眼书非则听白却界达光放强即像难且权思王象完设式色路记南品住告类求据程北边死张该交规万取拉格望觉术领共确传师观清今切院让识候带导争运笑飞风步改收根干造言联持组每济车亲极林服快办议往元英士证近失转夫令准布始怎呢存未远叫台单影具罗字爱击流备兵连调深商算质团集百需价花党华城石级整府离况亚请技际约示复病息究线似官火断精满支视消越器容照须九增研写称企八功吗包片史委乎查轻易早曾除农找装广显吧阿李标谈吃图念六引历首医局突专费号尽另周较注语仅考落青随选列武红响虽推势参希古众构房半节土投某案黑维革划敌致陈律足态护七兴派孩验责营星够章音跟志底站严巴例防族供效续施留讲型料终答紧黄绝奇察母京段依批群项故按河米围江织害斗双境客纪采举杀攻父苏密低朝友诉止细愿千值仍男钱破网热助倒育属坐帝限船脸职速刻乐否刚威毛状率甚独球般普怕弹校苦创假久错承印晚兰试股拿脑预谁益阳若哪微尼继送急血惊伤素药适波夜省初喜卫源食险待述陆习置居劳财环排福纳欢雷警获模充负云停木游龙树疑层冷洲冲射略范竟句室异激汉村哈策演简卡罪判担州静退既衣您宗积余痛检差富灵协角占配征修皮挥胜降阶审沉坚善妈刘读啊超免压银买皇养伊怀执副乱抗犯追帮宣佛岁航优怪香著田铁控税左右份穿艺背阵草脚概恶块顿敢守酒岛托央户烈洋哥索胡款靠评版宝座释景顾弟登货互付伯慢欧换闻危忙核暗姐介坏讨丽良序升监临亮露永呼味野架域沙掉括舰鱼杂误湾吉减编楚肯测败屋跑梦散温困剑渐封救贵枪缺楼县尚毫移娘朋画班智亦耳恩短掌恐遗固席松秘谢鲁遇康虑幸均销钟诗藏赶剧票损忽巨炮旧端探湖录叶春乡附吸予礼港雨呀板庭妇归睛饭额含顺输摇招婚脱补谓督毒油疗旅泽材灭逐莫笔亡鲜词圣择寻厂睡博勒烟授诺伦岸奥唐卖俄炸载洛健堂旁宫喝借君禁阴园谋宋避抓荣姑孙逃牙束跳顶玉镇雪午练迫爷篇肉嘴馆遍凡础洞卷坦牛宁纸诸训私庄祖丝翻暴森塔默握戏隐熟骨访弱蒙歌店鬼软典欲萨伙遭盘爸扩盖弄雄稳忘亿刺拥徒姆杨齐赛趣曲刀床迎冰虚玩析窗醒妻透购替塞努休虎扬途侵刑绿兄迅套贸毕唯谷轮库迹尤竞街促延震弃甲伟麻川申缓潜闪售灯针哲络抵朱埃抱鼓植纯夏忍页杰筑折郑贝尊吴秀混臣雅振染盛怒舞圆搞狂措姓残秋培迷诚宽宇猛摆梅毁伸摩盟末乃悲拍丁赵硬麦蒋操耶阻订彩抽赞魔纷沿喊违妹浪汇币丰蓝殊献桌啦瓦莱援译夺汽烧距裁偏符勇触课敬哭懂墙袭召罚侠厅拜巧侧韩冒债曼融惯享戴童犹乘挂奖绍厚纵障讯涉彻刊丈爆乌役描洗玛患妙镜唱烦签仙彼弗症仿倾牌陷鸟轰咱菜闭奋庆撤泪茶疾缘播朗杜奶季丹狗尾仪偷奔珠虫驻孔宜艾桥淡翼恨繁寒伴叹旦愈潮粮缩罢聚径恰挑袋灰捕徐珍幕映裂泰隔启尖忠累炎暂估泛荒偿横拒瑞忆孤鼻闹羊呆厉衡胞零穷舍码赫婆魂灾洪腿胆津俗辩胸晓劲贫仁偶辑邦恢赖圈摸仰润堆碰艇稍迟辆废净凶署壁御奉旋冬矿抬蛋晨伏吹鸡倍糊秦盾杯租骑乏隆诊奴摄丧污渡旗甘耐凭扎抢绪粗肩梁幻菲皆碎宙叔岩荡综爬荷悉蒂返井壮薄悄扫敏碍殖详迪矛霍允幅撒剩凯颗骂赏液番箱贴漫酸郎腰舒眉忧浮辛恋餐吓挺励辞艘键伍峰尺昨黎辈贯侦滑券崇扰宪绕趋慈乔阅汗枝拖墨胁插箭腊粉泥氏彭拔骗凤慧媒佩愤扑龄驱惜豪掩兼跃尸肃帕驶堡届欣惠册储飘桑闲惨洁踪勃宾频仇磨递邪撞拟滚奏巡颜剂绩贡疯坡瞧截燃焦殿伪柳锁逼颇昏劝呈搜勤戒驾漂饮曹朵仔柔俩孟腐幼践籍牧凉牲佳娜浓芳稿竹腹跌逻垂遵脉貌柏狱猜怜惑陶兽帐饰贷昌叙躺钢沟寄扶铺邓寿惧询汤盗肥尝匆辉奈扣廷澳嘛董迁凝慰厌脏腾幽怨鞋丢埋泉涌辖躲晋紫艰魏吾慌祝邮吐狠鉴曰械咬邻赤挤弯椅陪割揭韦悟聪雾锋梯猫祥阔誉筹丛牵鸣沈阁穆屈旨袖猎臂蛇贺柱抛鼠瑟戈牢逊迈欺吨琴衰瓶恼燕仲诱狼池疼卢仗冠粒遥吕玄尘冯抚浅敦纠钻晶岂峡苍喷耗凌敲菌赔涂粹扁亏寂煤熊恭湿循暖糖赋抑秩帽哀宿踏烂袁侯抖夹昆肝擦猪炼恒慎搬纽纹玻渔磁铜齿跨押怖漠疲叛遣兹祭醉拳弥斜档稀捷肤疫肿豆削岗晃吞宏癌肚隶履涨耀扭坛拨沃绘伐堪仆郭牺歼墓雇廉契拼惩捉覆刷劫嫌瓜歇雕闷乳串娃缴唤赢莲霸桃妥瘦搭赴岳嘉舱俊址庞耕锐缝悔邀玲惟斥宅添挖呵讼氧浩羽斤酷掠妖祸侍乙妨贪挣汪尿莉悬唇翰仓轨枚盐览傅帅庙芬屏寺胖璃愚滴疏萧姿颤丑劣柯寸扔盯辱匹俱辨饿蜂哦腔郁溃谨糟葛苗肠忌溜鸿爵鹏鹰笼丘桂滋聊挡纲肌茨壳痕碗穴膀卓贤卧膜毅锦欠哩函茫昂薛皱夸豫胃舌剥傲拾窝睁携陵哼棉晴铃填饲渴吻扮逆脆喘罩卜炉柴愉绳胎蓄眠竭喂傻慕浑奸扇柜悦拦诞饱乾泡贼亭夕爹酬儒姻卵氛泄杆挨僧蜜吟猩遂狭肖甜霞驳裕顽於摘矮秒卿畜咽披辅勾盆疆赌塑畏吵囊嗯泊肺骤缠冈羞瞪吊贾漏斑涛悠鹿俘锡卑葬铭滩嫁催璇翅盒蛮矣潘歧赐鲍锅廊拆灌勉盲宰佐啥胀扯禧辽抹筒棋裤唉朴咐孕誓喉妄拘链驰栏逝窃艳臭纤棵趁匠盈翁愁瞬婴孝颈倘浙谅蔽畅赠妮莎尉冻跪闯葡後厨鸭颠遮谊吁仑辟瘤嫂陀框谭亨钦庸歉芝吼甫衫摊宴嘱衷娇陕矩浦讶耸裸碧摧薪淋耻胶屠鹅饥盼脖虹翠崩账萍逢赚撑翔倡绵猴枯巫昭怔渊凑溪蠢禅阐旺寓藤匪伞碑挪琼脂谎慨菩萄狮掘抄岭晕逮砍掏狄晰罕挽脾舟痴蔡剪脊弓懒叉拐喃僚捐姊骚拓歪粘柄坑陌窄湘兆崖骄刹鞭芒筋聘钩棍嚷腺弦焰耍俯厘愣厦恳饶钉寡憾摔叠惹喻谱愧煌徽溶坠煞巾滥洒堵瓷咒姨棒郡浴媚稣淮哎屁漆淫巢吩撰啸滞玫硕钓蝶膝姚茂躯吏猿寨恕渠戚辰舶颁惶狐讽笨袍嘲啡泼衔倦涵雀旬僵撕肢垄夷逸茅侨舆窑涅蒲谦杭噢弊勋刮郊凄捧浸砖鼎篮蒸饼亩肾陡爪兔殷贞荐哑炭坟眨搏咳拢舅昧擅爽咖搁禄雌哨巩绢螺裹昔轩谬谍龟媳姜瞎冤鸦蓬巷琳栽沾诈斋瞒彪厄咨纺罐桶壤糕颂膨谐垒咕隙辣绑宠嘿兑霉挫稽辐乞纱裙嘻哇绣杖塘衍轴攀膊譬斌祈踢肆坎轿棚泣屡躁邱凰溢椎砸趟帘帆栖窜丸斩堤塌贩厢掀喀乖谜捏阎滨虏匙芦苹卸沼钥株祷剖熙哗劈怯棠胳桩瑰娱娶沫嗓蹲焚淘嫩韵衬匈钧竖峻豹捞菊鄙魄兜哄颖镑屑蚁壶怡渗秃迦旱哟咸焉谴宛稻铸锻伽詹毙恍贬烛骇芯汁桓坊驴朽靖佣汝碌迄冀荆崔雁绅珊榜诵傍彦醇笛禽勿娟瞄幢寞睹贿踩霆呜拱妃蔑谕缚诡篷淹腕煮倩卒勘馨逗甸贱炒灿敞蜡囚栗辜垫妒魁谣寇蚀蕴' +
+    '這個們來為國說時會對過後裡麼還開於發與當經學點現樣種動進實長問從頭見兩間聲無將應軍爾門話義關機體電萬氣書號總給認場離讓處聽師務傳專難覺親變邊條風錢東車歲業愛張陽員記讀寫買賣紅黃綠藍鳥馬魚龍飛錯結統類題顯運達連遠劉陳楊趙吳孫鄭謝許鄧蕭馮韓區歷聞閉陣隊陰際隨險雙雜靈顏願飯館驚髮鬥鬧點齊齒標權橫歡歸殺漢淚滿潔濟爲營燈爭牆獨獲環產畫療盡監眾礙確禮稱積穩窮競筆節範簡糧紀約紙級細終組絕絲綱網緊線練織繼續罷羅習聖聯職肅腦臉臨舊興艦藝葉著蘇蟲術衛衝裝複規視觀覽計訂討訓設訴診詞試詩該詳語誤誰課調談請論諸講識證議護貝負財貨質購貴費賀資賞賢軟較載輕輩輪轉辦農選遺鄉醫釋針鐘鐵銀錄閱陸隱雖雞須頂項順領額養餘驗黨' +
+    '気様続戦円駅読売図広応変楽薬覚経済関係県区実験働込払'
+  );
+
+  /**
+   * 检测编码
+   * @param data - 文件内容（UTF-8 校验整个文件，其余检测只读取 SAMPLE_SIZE 字节）
+   */
+  static detect(data: ArrayBuffer | Uint8Array): EncodingDetection {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+
+    const bom = this.detectBOM(bytes);
+    if (bom) {
+      return { encoding: bom, confidence: 1, bom: true };
+    }
+
+    const utf16 = this.detectUTF16(bytes.subarray(0, this.SAMPLE_SIZE));
+    if (utf16) {
+      return { ...utf16, bom: false };
+    }
+
+    if (this.isUTF8(bytes)) {
+      return { encoding: 'utf-8', confidence: 1, bom: false };
+    }
+
+    // 跳过开头的纯 ASCII 部分（如英文版权声明），采样真正需要判断的多字节文本
+    const start = Math.max(0, bytes.findIndex(byte => byte >= 0x80));
+    return { ...this.scoreCandidates(bytes.subarray(start, start + this.SAMPLE_SIZE)), bom: false };
+  }
+
+  /**
+   * 解码文本
+   * @param data - 文件内容
+   * @param encoding - 指定编码（用户手动选择时传入），省略则自动检测
+   */
+  static decode(data: ArrayBuffer | Uint8Array, encoding?: string): DecodedText {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+
+    let detection: EncodingDetection;
+    if (encoding) {
+      detection = { encoding, confidence: 1, bom: this.detectBOM(bytes) === encoding };
+    } else {
+      detection = this.detect(bytes);
+    }
+
+    let text: string;
+    try {
+      text = new TextDecoder(detection.encoding).decode(bytes);
+    } catch {
+      // 运行环境不支持该编码，降级到 UTF-8 非严格模式
+      console.warn('[EncodingDetector] 不支持的编码，改用 UTF-8:', detection.encoding);
+      detection = { encoding: 'utf-8', confidence: 0, bom: false };
+      text = new TextDecoder('utf-8').decode(bytes);
+    }
+
+    console.log('[EncodingDetector] 使用编码:', detection.encoding, '置信度:', detection.confidence);
+    return { ...detection, text };
+  }
+
+  /**
+   * 编码展示名称
+   */
+  static nameOf(encoding: string): string {
+    return this.ENCODINGS.find(e => e.id === encoding)?.name || encoding;
+  }
+
+  /**
+   * BOM 检测
+   */
+  private static detectBOM(bytes: Uint8Array): string | null {
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+    return null;
+  }
+
+  /**
+   * 无 BOM 的 UTF-16：西文字符的高位字节为 0x00，集中出现在奇数位（LE）或偶数位（BE）
+   */
+  private static detectUTF16(sample: Uint8Array): Omit<EncodingDetection, 'bom'> | null {
+    const pairs = Math.floor(sample.length / 2);
+    if (pairs < 2) return null;
+
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i < pairs * 2; i += 2) {
+      if (sample[i] === 0) evenZeros++;
+      if (sample[i + 1] === 0) oddZeros++;
+    }
+
+    const even = evenZeros / pairs;
+    const odd = oddZeros / pairs;
+
+    if (odd >= this.UTF16_ZERO_MIN && even <= this.UTF16_ZERO_MAX) {
+      return { encoding: 'utf-16le', confidence: this.round(Math.min(1, 0.5 + odd / 2)) };
+    }
+    if (even >= this.UTF16_ZERO_MIN && odd <= this.UTF16_ZERO_MAX) {
+      return { encoding: 'utf-16be', confidence: this.round(Math.min(1, 0.5 + even / 2)) };
+    }
+    return null;
+  }
+
+  /**
+   * UTF-8 严格校验（整个文件，任何非法序列都视为非 UTF-8）
+   */
+  private static isUTF8(bytes: Uint8Array): boolean {
+    try {
+      new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 用各候选编码解码采样，取平均字符得分最高者
+   * 置信度 = 最高分质量 × (0.5 + 0.5 × 与次高分的差距)
+   */
+  private static scoreCandidates(sample: Uint8Array): Omit<EncodingDetection, 'bom'> {
+    const scores = this.CANDIDATES.map(encoding => ({
+      encoding,
+      score: this.scoreText(new TextDecoder(encoding).decode(sample))
+    }));
+
+    const ranked = [...scores].sort((a, b) => b.score - a.score);
+    const [best, second] = ranked;
+
+    const quality = this.clamp(best.score / this.MAX_CHAR_SCORE);
+    const margin = second ? this.clamp((best.score - second.score) / this.MAX_CHAR_SCORE) : 1;
+
+    console.log('[EncodingDetector] 候选编码得分:', scores);
+    return { encoding: best.encoding, confidence: this.round(quality * (0.5 + 0.5 * margin)) };
+  }
+
+  /**
+   * 计算非 ASCII 字符的平均得分
+   * 常用汉字、假名和全角标点加分；替换符、控制字符、私用区和生僻字减分
+   */
+  private static scoreText(text: string): number {
+    let total = 0;
+    let count = 0;
+
+    for (const char of text) {
+      const code = char.codePointAt(0)!;
+      if (code < 0x80) continue;
+
+      count++;
+      if (code === 0xfffd) {
+        total -= 8;
+      } else if (code <= 0x9f || (code >= 0xe000 && code <= 0xf8ff)) {
+        total -= 4;
+      } else if (this.COMMON_CHARS.has(char)) {
+        total += 3;
+      } else if (code >= 0x3041 && code <= 0x30ff) {
+        total += 3;
+      } else if ((code >= 0x3000 && code <= 0x303f) || (code >= 0xff01 && code <= 0xff5e)) {
+        total += 2;
+      } else if (code >= 0x4e00 && code <= 0x9fff) {
+        // 其他基本区汉字不加不减
+      } else if ((code >= 0x3400 && code <= 0x4dbf) || (code >= 0xf900 && code <= 0xfaff) || code > 0xffff) {
+        total -= 2;
+      } else {
+        // 半角片假名、拉丁扩展、制表符等多为误解码产物
+        total -= 1;
+      }
+    }
+
+    return count > 0 ? total / count : 0;
+  }
+
+  private static clamp(value: number): number {
+    return Math.min(1, Math.max(0, value));
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { HighlightRanges, type HighlightSpan } from './HighlightRanges';
+
+const YELLOW: HighlightSpan = { id: 1, color: 'yellow', start: 2, end: 6 };
+
+// 与阅读器相同的结构：章节 > 段落（ContentBlock），段落可以属于不同的 layer
+function renderChapter(): HTMLElement {
+  document.body.innerHTML = `
+    <section data-chapter-id="3">
+      <div class="content-layer">
+        <p class="content-block" data-index="0">天色<em>渐暗</em>了。</p>
+      </div>
+      <div class="content-layer">
+        <p class="content-block block-list-item" data-index="1"><span class="list-marker">•</span><ruby>桥<rt>qiáo</rt></ruby>上有人。</p>
+      </div>
+    </section>`;
+  return document.body;
+}
+
+describe('HighlightRanges', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('splits runs at highlight boundaries', () => {
+    const runs = HighlightRanges.split([{ text: '天色' }, { text: '渐暗', marks: ['em'] }, { text: '了。' }], [YELLOW]);
+
+    expect(runs.map(run => [run.text, run.highlight?.id])).toEqual([
+      ['天色', undefined],
+      ['渐暗', 1],
+      ['了。', 1]
+    ]);
+    expect(runs[1].marks).toEqual(['em']);
+  });
+
+  it('prefers later highlights and keeps ruby runs whole', () => {
+    const green: HighlightSpan = { id: 2, color: 'green', start: 3, end: Infinity };
+    const runs = HighlightRanges.split([{ text: '桥', ruby: 'qiáo' }, { text: '上有人。' }], [{ ...YELLOW, start: 0 }, green]);
+
+    expect(runs.map(run => [run.text, run.highlight?.id])).toEqual([
+      ['桥', 1],
+      ['上有', 1],
+      ['人。', 2]
+    ]);
+  });
+
+  it('maps a selection across layers to paragraph offsets', () => {
+    const root = renderChapter();
+    const [first, second] = Array.from(root.querySelectorAll('p'));
+    const range = document.createRange();
+    range.setStart(first.querySelector('em')!.firstChild!, 1);
+    range.setEnd(second.lastChild!, 2);
+
+    expect(HighlightRanges.fromRange(range)).toEqual({
+      chapterId: 3,
+      paragraphIndex: 0,
+      startOffset: 3,
+      endParagraphIndex: 1,
+      endOffset: 3
+    });
+  });
+
+  it('ignores selections outside paragraphs and empty selections', () => {
+    const root = renderChapter();
+    const paragraph = root.querySelector('p')!;
+    const range = document.createRange();
+
+    range.setStart(paragraph.firstChild!, 1);
+    range.setEnd(paragraph.firstChild!, 1);
+    expect(HighlightRanges.fromRange(range)).toBeNull();
+
+    range.selectNodeContents(root.querySelector('section')!);
+    expect(HighlightRanges.fromRange(range)).toBeNull();
+  });
+});
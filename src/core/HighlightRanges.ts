@@ -0,0 +1,145 @@
+/**
+ * 文字高亮的范围计算
+ * 高亮按 章节 + 段落全局索引 + 段落纯文本内的字符偏移 存储，与排版、layer 分块无关：
+ * - fromRange：把 DOM 选区换算为段落范围（选区可以跨段落、跨 layer）
+ * - split：把段落的行内片段按高亮边界切开，供 InlineRuns 渲染
+ *
+ * 字符偏移以 paragraphs 中的纯文本为准（富文本片段拼接后与之相同），
+ * 注音（<rt>）和列表标记只在 DOM 中出现，不计入偏移
+ */
+
+import type { InlineRun } from '@/types/book';
+
+/**
+ * 段落范围：从 paragraphIndex 段的 startOffset 到 endParagraphIndex 段的 endOffset（不含）
+ */
+export interface HighlightRange {
+  paragraphIndex: number;
+  startOffset: number;
+  endParagraphIndex: number;
+  endOffset: number;
+}
+
+/**
+ * DOM 选区对应的段落范围
+ */
+export interface SelectedRange extends HighlightRange {
+  chapterId: number;
+}
+
+/**
+ * 一条高亮在某个段落内覆盖的范围（end 可以超出段落长度）
+ */
+export interface HighlightSpan {
+  id: number;
+  color: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * 带高亮的行内片段
+ */
+export interface HighlightedRun extends InlineRun {
+  highlight?: HighlightSpan;
+}
+
+export class HighlightRanges {
+  /**
+   * 不属于段落纯文本的 DOM 内容
+   */
+  private static readonly IGNORED_SELECTOR = 'rt, .list-marker';
+
+  /**
+   * 把 DOM 选区换算为段落范围
+   * 选区两端都必须在同一章节的段落（ContentBlock）内，表格不支持高亮；无法换算或选区为空时返回 null
+   */
+  static fromRange(range: Range): SelectedRange | null {
+    const start = this.blockOf(range.startContainer);
+    const end = this.blockOf(range.endContainer);
+    if (!start || !end) return null;
+
+    const chapter = start.closest<HTMLElement>('[data-chapter-id]');
+    if (!chapter || chapter !== end.closest('[data-chapter-id]')) return null;
+
+    const selected: SelectedRange = {
+      chapterId: Number(chapter.dataset.chapterId),
+      paragraphIndex: Number(start.dataset.index),
+      startOffset: this.textOffset(start, range.startContainer, range.startOffset),
+      endParagraphIndex: Number(end.dataset.index),
+      endOffset: this.textOffset(end, range.endContainer, range.endOffset)
+    };
+
+    const empty = selected.paragraphIndex === selected.endParagraphIndex
+      && selected.startOffset >= selected.endOffset;
+    return empty ? null : selected;
+  }
+
+  /**
+   * 选区端点（node, offset）在段落纯文本中的字符偏移
+   */
+  static textOffset(block: Element, node: Node, offset: number): number {
+    // 从段落开头到端点的范围：完全落在其中的文本节点都在端点之前
+    const before = block.ownerDocument.createRange();
+    before.selectNodeContents(block);
+    before.setEnd(node, offset);
+
+    const walker = block.ownerDocument.createTreeWalker(block, NodeFilter.SHOW_TEXT);
+    let count = 0;
+    for (let text = walker.nextNode(); text; text = walker.nextNode()) {
+      const ignored = !!text.parentElement?.closest(this.IGNORED_SELECTOR);
+      if (text === node) {
+        return ignored ? count : count + offset;
+      }
+      if (before.comparePoint(text, 0) > 0) break;
+      if (!ignored) {
+        count += text.textContent?.length ?? 0;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * 按高亮边界切开行内片段
+   * 高亮重叠时后面的高亮优先；注音和注释引用不切开，按片段开头所在的高亮整体高亮
+   */
+  static split(runs: InlineRun[], spans: HighlightSpan[]): HighlightedRun[] {
+    const spanAt = (position: number) =>
+      spans.filter(span => span.start <= position && position < span.end).pop();
+    const nextBoundary = (position: number, limit: number) => spans
+      .flatMap(span => [span.start, span.end])
+      .reduce((next, boundary) => boundary > position && boundary < next ? boundary : next, limit);
+
+    const result: HighlightedRun[] = [];
+    let position = 0;
+    for (const run of runs) {
+      const runStart = position;
+      const runEnd = position + run.text.length;
+      position = runEnd;
+
+      if (run.ruby || run.note || run.text.length === 0) {
+        const span = spanAt(runStart);
+        result.push(span ? { ...run, highlight: span } : run);
+        continue;
+      }
+
+      for (let cursor = runStart; cursor < runEnd;) {
+        const next = nextBoundary(cursor, runEnd);
+        const span = spanAt(cursor);
+        const text = run.text.slice(cursor - runStart, next - runStart);
+        result.push(span ? { ...run, text, highlight: span } : { ...run, text });
+        cursor = next;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 选区端点所在的段落（可高亮的 ContentBlock）
+   */
+  private static blockOf(node: Node): HTMLElement | null {
+    const element = node instanceof Element ? node : node.parentElement;
+    const block = element?.closest<HTMLElement>('.content-block[data-index]');
+    return block && !block.classList.contains('block-table') ? block : null;
+  }
+}
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from 'vitest';
+import JSZip from 'jszip';
+import { ParserService } from './ParserService';
+import { ParserWorker, type ParserRequest, type ParserResponse } from './ParserWorker';
+
+/**
+ * 在当前线程中运行 ParserWorker 的假 Worker，消息经结构化克隆（含 Transferable 转移）后异步投递
+ */
+class FakeWorker {
+  onmessage: ((event: MessageEvent<ParserResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  requests: ParserRequest[] = [];
+  terminated = false;
+
+  private worker = new ParserWorker((response, transfer) => {
+    const data = structuredClone(response, { transfer });
+    setTimeout(() => {
+      if (!this.terminated) {
+        this.onmessage?.({ data } as MessageEvent<ParserResponse>);
+      }
+    });
+  });
+
+  postMessage(message: ParserRequest, transfer: Transferable[] = []): void {
+    const data = structuredClone(message, { transfer });
+    this.requests.push(data);
+    setTimeout(() => {
+      if (!this.terminated) {
+        this.worker.handle(data);
+      }
+    });
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+}
+
+function createService(): { service: ParserService; workers: FakeWorker[] } {
+  const workers: FakeWorker[] = [];
+  const service = new ParserService(() => {
+    const worker = new FakeWorker();
+    workers.push(worker);
+    return worker as unknown as Worker;
+  });
+  return { service, workers };
+}
+
+function toBuffer(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+const TEXT = [
+  '第一章 开始',
+  '天色渐暗。',
+  '第二章 相遇',
+  '他们在桥上相遇。',
+  '第三章 离别',
+  '雨一直下。'
+].join('\n');
+
+async function buildEpub(): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file('META-INF/container.xml', '<?xml version="1.0"?><container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">'
+    + '<rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>');
+  zip.file('OEBPS/content.opf', '<?xml version="1.0"?><package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="id">'
+    + '<metadata xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>Worker</dc:title><dc:identifier id="id">x</dc:identifier></metadata>'
+    + '<manifest><item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>'
+    + '<item id="c1" href="c1.xhtml" media-type="application/xhtml+xml"/></manifest><spine><itemref idref="c1"/></spine></package>');
+  zip.file('OEBPS/nav.xhtml', '<?xml version="1.0"?><html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">'
+    + '<body><nav epub:type="toc"><ol><li><a href="c1.xhtml">第一章</a></li></ol></nav></body></html>');
+  zip.file('OEBPS/c1.xhtml', '<?xml version="1.0"?><html xmlns="http://www.w3.org/1999/xhtml"><head><title>c1</title></head><body><p>天色渐暗。</p></body></html>');
+  return zip.generateAsync({ type: 'arraybuffer' });
+}
+
+describe('ParserService', () => {
+  it('parses TXT in a worker, reporting progress and transferring the buffer back', async () => {
+    const { service, workers } = createService();
+    const data = toBuffer(TEXT);
+    const progress: number[] = [];
+
+    const book = await service.parse('txt', data, 'novel.txt', { onProgress: value => progress.push(value) });
+
+    expect(book.chapters.map(c => c.title)).toEqual(['第一章 开始', '第二章 相遇', '第三章 离别']);
+    expect(data.byteLength).toBe(0);
+    expect(book.rawData.byteLength).toBeGreaterThan(0);
+    expect(progress.length).toBeGreaterThan(2);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    expect(progress[progress.length - 1]).toBe(1);
+    expect(workers).toHaveLength(1);
+    expect(workers[0].terminated).toBe(true);
+  });
+
+  it('rejects and terminates the worker when the parse is aborted', async () => {
+    const { service, workers } = createService();
+    const controller = new AbortController();
+
+    const promise = service.parse('txt', toBuffer(TEXT), 'novel.txt', { signal: controller.signal });
+    controller.abort();
+
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+    expect(workers[0].terminated).toBe(true);
+  });
+
+  it('loads chapters through a per-book worker session', async () => {
+    const { service, workers } = createService();
+    const book = await service.parse('txt', toBuffer(TEXT), 'novel.txt');
+
+    const second = await service.loadChapter(book, 1);
+    const third = await service.loadChapter(book, 2);
+
+    expect(second[0].paragraphs).toEqual(['他们在桥上相遇。']);
+    expect(third[0].paragraphs).toEqual(['雨一直下。']);
+
+    const chapterWorker = workers[1];
+    const loads = chapterWorker.requests.filter(r => r.type === 'loadChapter');
+    expect(loads).toHaveLength(2);
+    expect(loads.map(r => r.type === 'loadChapter' && !!r.book)).toEqual([true, false]);
+
+    service.release(book);
+    expect(chapterWorker.requests[chapterWorker.requests.length - 1]).toEqual({ type: 'close', session: 1 });
+  });
+
+  it('parses EPUB in a worker and loads its chapters on the main thread', async () => {
+    const { service, workers } = createService();
+
+    // 假 Worker 与测试在同一线程，去掉 DOMParser 模拟 Worker 环境
+    vi.stubGlobal('DOMParser', undefined);
+    const progress: number[] = [];
+    const book = await service.parse('epub', await buildEpub(), 'book.epub', { onProgress: value => progress.push(value) })
+      .finally(() => vi.unstubAllGlobals());
+
+    expect(book.title).toBe('Worker');
+    expect(progress.length).toBeGreaterThan(2);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    expect(progress[progress.length - 1]).toBe(1);
+    expect(book.chapters.map(c => [c.title, c.href])).toEqual([['第一章', 'c1.xhtml']]);
+    expect(workers).toHaveLength(1);
+    expect(service.runsInWorker('epub', 'loadChapter')).toBe(false);
+
+    const layers = await service.loadChapter(book, 0);
+    expect(layers[0].paragraphs).toEqual(['天色渐暗。']);
+    expect(workers).toHaveLength(1);
+  });
+
+  it('rejects an aborted chapter load', async () => {
+    const { service } = createService();
+    const book = await service.parse('txt', toBuffer(TEXT), 'novel.txt');
+    const controller = new AbortController();
+
+    const promise = service.loadChapter(book, 0, controller.signal);
+    controller.abort();
+
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('parses on the main thread when workers are unavailable', async () => {
+    const service = new ParserService(null);
+    const data = toBuffer(TEXT);
+    const progress: number[] = [];
+
+    const book = await service.parse('txt', data, 'novel.txt', { onProgress: value => progress.push(value) });
+    const layers = await service.loadChapter(book, 0);
+
+    expect(service.runsInWorker('txt')).toBe(false);
+    expect(data.byteLength).toBeGreaterThan(0);
+    expect(progress[progress.length - 1]).toBe(1);
+    expect(layers[0].paragraphs).toEqual(['天色渐暗。']);
+  });
+});
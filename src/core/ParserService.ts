@@ -0,0 +1,222 @@
+/**
+ * 解析服务
+ * 书库和章节缓存通过它解析书籍、加载章节，不直接调用适配器
+ *
+ * - 支持 Worker 的格式（见 ParserWorker）在 Web Worker 中运行：
+ *   每次解析使用独立的 Worker，ArrayBuffer 以 Transferable 传入并随结果转移回来，取消时直接终止该 Worker；
+ *   章节加载共用一个常驻 Worker，每本书一个会话，第一次加载时把书籍复制到 Worker 中
+ * - 其他格式和 EPUB 的章节加载（依赖 DOMParser、Epub.js、Blob URL）在主线程运行，接口相同；
+ *   EPUB 的章节转换需要遍历 XHTML DOM，目前仍占用主线程
+ */
+
+import { toRaw } from 'vue';
+import type { UnifiedBook, ContentLayer, BookFormat } from '@/types/book';
+import type { ParseOptions } from '@/adapters/FormatAdapter';
+import { adapterRegistry } from '@/adapters/AdapterRegistry';
+import { ParserWorker, type ParserRequest, type ParserResponse, type ParserTask } from './ParserWorker';
+
+interface PendingRequest {
+  worker: Worker;
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+  onProgress?: (progress: number) => void;
+}
+
+export type WorkerFactory = () => Worker;
+
+export class ParserService {
+  private chapterWorker: Worker | null = null;
+  private sessions = new WeakMap<UnifiedBook, number>();
+  private pending = new Map<number, PendingRequest>();
+  private nextRequestId = 1;
+  private nextSessionId = 1;
+
+  /**
+   * @param createWorker - 创建解析 Worker；为 null 时（测试环境、不支持 Worker 的浏览器）全部在主线程运行
+   */
+  constructor(private readonly createWorker: WorkerFactory | null = ParserService.defaultWorkerFactory()) {}
+
+  private static defaultWorkerFactory(): WorkerFactory | null {
+    if (typeof Worker === 'undefined') return null;
+    return () => new Worker(new URL('./parser.worker.ts', import.meta.url), { type: 'module' });
+  }
+
+  /**
+   * 该格式的解析或章节加载是否在 Worker 中运行
+   */
+  runsInWorker(format: BookFormat, task: ParserTask = 'parse'): boolean {
+    return !!this.createWorker && ParserWorker.supports(format, task);
+  }
+
+  /**
+   * 解析书籍
+   * 在 Worker 中解析时 data 会被转移（调用后不可再使用），请使用返回的 book.rawData
+   */
+  async parse(format: BookFormat, data: ArrayBuffer, filename: string, options?: ParseOptions): Promise<UnifiedBook> {
+    const { onProgress, signal, ...parseOptions } = options || {};
+    signal?.throwIfAborted();
+
+    if (!this.runsInWorker(format)) {
+      const book = await adapterRegistry.get(format).parse(data, filename, options);
+      signal?.throwIfAborted();
+      onProgress?.(1);
+      return book;
+    }
+
+    const worker = this.createWorker!();
+    const id = this.nextRequestId++;
+    worker.onmessage = event => this.dispatch(event.data);
+    worker.onerror = event => this.fail(id, new Error(event.message || '解析 Worker 出错'));
+    try {
+      return await this.request<UnifiedBook>(
+        worker,
+        { type: 'parse', id, format, data, filename, options: parseOptions },
+        [data],
+        signal,
+        onProgress
+      );
+    } finally {
+      worker.terminate();
+    }
+  }
+
+  /**
+   * 加载章节
+   * 取消时立即返回 AbortError：主线程中的适配器自行停止并释放已创建的图片，Worker 中已开始的加载结果被丢弃
+   */
+  async loadChapter(book: UnifiedBook, chapterId: number, signal?: AbortSignal): Promise<ContentLayer[]> {
+    signal?.throwIfAborted();
+    const rawBook = toRaw(book);
+
+    if (!this.runsInWorker(rawBook.format, 'loadChapter')) {
+      const layers = await adapterRegistry.get(rawBook.format).loadChapter(rawBook, chapterId, signal);
+      signal?.throwIfAborted();
+      return layers;
+    }
+
+    const worker = this.getChapterWorker();
+    let session = this.sessions.get(rawBook);
+    let sessionBook: UnifiedBook | undefined;
+    if (session === undefined) {
+      session = this.nextSessionId++;
+      sessionBook = this.sessionBook(rawBook);
+      this.sessions.set(rawBook, session);
+    }
+
+    return this.request<ContentLayer[]>(
+      worker,
+      { type: 'loadChapter', id: this.nextRequestId++, session, chapterId, book: sessionBook },
+      [],
+      signal
+    );
+  }
+
+  /**
+   * 释放书籍在 Worker 中的会话（关闭书籍时由 ChapterCache 调用）
+   */
+  release(book: UnifiedBook): void {
+    const rawBook = toRaw(book);
+    const session = this.sessions.get(rawBook);
+    if (session === undefined) return;
+
+    this.sessions.delete(rawBook);
+    this.chapterWorker?.postMessage({ type: 'close', session } satisfies ParserRequest);
+  }
+
+  /**
+   * 发送请求并等待结果，取消时拒绝 Promise（解析 Worker 由调用方终止）
+   */
+  private request<T>(
+    worker: Worker,
+    message: Extract<ParserRequest, { id: number }>,
+    transfer: Transferable[],
+    signal?: AbortSignal,
+    onProgress?: (progress: number) => void
+  ): Promise<T> {
+    const id = message.id;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        this.pending.delete(id);
+        reject(signal?.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(id, {
+        worker,
+        resolve: result => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result as T);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        onProgress
+      });
+
+      worker.postMessage(message, transfer);
+    });
+  }
+
+  private dispatch(response: ParserResponse): void {
+    const pending = this.pending.get(response.id);
+    if (!pending) return; // 已取消
+
+    if (response.type === 'progress') {
+      pending.onProgress?.(response.progress);
+      return;
+    }
+
+    this.pending.delete(response.id);
+    if (response.type === 'result') {
+      pending.onProgress?.(1);
+      pending.resolve(response.result);
+    } else {
+      pending.reject(new Error(response.message));
+    }
+  }
+
+  private fail(id: number, error: Error): void {
+    const pending = this.pending.get(id);
+    if (!pending) return;
+    this.pending.delete(id);
+    pending.reject(error);
+  }
+
+  /**
+   * 常驻的章节 Worker；出错崩溃时拒绝所有等待中的请求，下次使用时重新创建
+   */
+  private getChapterWorker(): Worker {
+    if (this.chapterWorker) return this.chapterWorker;
+
+    const worker = this.createWorker!();
+    worker.onmessage = event => this.dispatch(event.data);
+    worker.onerror = event => {
+      console.error('[ParserService] 章节 Worker 出错，重新创建:', event.message);
+      worker.terminate();
+      this.chapterWorker = null;
+      this.sessions = new WeakMap();
+      for (const [id, pending] of Array.from(this.pending)) {
+        if (pending.worker === worker) {
+          this.fail(id, new Error(event.message || '解析 Worker 出错'));
+        }
+      }
+    };
+    this.chapterWorker = worker;
+    return worker;
+  }
+
+  /**
+   * 发送到 Worker 的书籍副本：去掉已加载的章节内容（rawData 由结构化克隆复制）
+   */
+  private sessionBook(book: UnifiedBook): UnifiedBook {
+    return {
+      ...book,
+      cover: null,
+      chapters: book.chapters.map(chapter => ({ ...toRaw(chapter), layers: [], isLoaded: false }))
+    };
+  }
+}
+
+export const parserService = new ParserService();
@@ -0,0 +1,108 @@
+/**
+ * 解析 Worker 的消息处理
+ * 在 Web Worker 中运行不依赖 DOM 的适配器，主线程通过 ParserService 发送消息：
+ * TXT 的解析和章节加载都在 Worker 中；EPUB 只在 Worker 中解压、读取 OPF 和目录，章节转换依赖 DOM，仍在主线程
+ *
+ * 协议：
+ * - parse：解析整本书，ArrayBuffer 以 Transferable 传入，结果中的 rawData 同样转移回主线程
+ * - loadChapter：按会话加载章节，会话的第一次请求携带书籍（rawData 复制一份留在 Worker 中）
+ * - close：释放会话
+ * 解析过程中通过 progress 消息报告进度；取消由主线程终止 Worker 实现
+ */
+
+import type { UnifiedBook, ContentLayer, BookFormat } from '@/types/book';
+import type { FormatAdapter, ParseOptions } from '@/adapters/FormatAdapter';
+import { TxtAdapter } from '@/adapters/TxtAdapter';
+import { EpubAdapter } from '@/adapters/EpubAdapter';
+
+export type ParserRequest =
+  | {
+    type: 'parse';
+    id: number;
+    format: BookFormat;
+    data: ArrayBuffer;
+    filename: string;
+    options?: Omit<ParseOptions, 'onProgress' | 'signal'>;
+  }
+  | { type: 'loadChapter'; id: number; session: number; chapterId: number; book?: UnifiedBook }
+  | { type: 'close'; session: number };
+
+export type ParserResponse =
+  | { type: 'progress'; id: number; progress: number }
+  | { type: 'result'; id: number; result: UnifiedBook | ContentLayer[] }
+  | { type: 'error'; id: number; message: string };
+
+export type ParserTask = 'parse' | 'loadChapter';
+
+export type PostResponse = (response: ParserResponse, transfer?: Transferable[]) => void;
+
+export class ParserWorker {
+  /**
+   * 可以在 Worker 中解析的适配器（解析过程不使用 document、Blob URL，XML 由适配器自行处理）
+   */
+  private static readonly ADAPTERS: Record<string, FormatAdapter> = {
+    [TxtAdapter.format]: TxtAdapter,
+    [EpubAdapter.format]: EpubAdapter
+  };
+
+  /**
+   * 章节也在 Worker 中加载的格式（EPUB 章节转换需要遍历 XHTML DOM、创建图片 Blob URL，在主线程加载）
+   */
+  private static readonly CHAPTER_FORMATS: ReadonlySet<string> = new Set([TxtAdapter.format]);
+
+  private sessions = new Map<number, UnifiedBook>();
+
+  constructor(private readonly post: PostResponse) {}
+
+  /**
+   * 该格式的解析或章节加载是否可以在 Worker 中运行
+   */
+  static supports(format: BookFormat, task: ParserTask = 'parse'): boolean {
+    return format in this.ADAPTERS && (task === 'parse' || this.CHAPTER_FORMATS.has(format));
+  }
+
+  async handle(request: ParserRequest): Promise<void> {
+    if (request.type === 'close') {
+      this.sessions.delete(request.session);
+      return;
+    }
+
+    try {
+      if (request.type === 'parse') {
+        const book = await this.adapter(request.format).parse(request.data, request.filename, {
+          ...request.options,
+          onProgress: progress => this.post({ type: 'progress', id: request.id, progress })
+        });
+        this.post({ type: 'result', id: request.id, result: book }, [book.rawData]);
+        return;
+      }
+
+      if (request.book) {
+        this.sessions.set(request.session, request.book);
+      }
+      const book = this.sessions.get(request.session);
+      if (!book) {
+        throw new Error(`解析会话 ${request.session} 不存在`);
+      }
+      if (!ParserWorker.supports(book.format, 'loadChapter')) {
+        throw new Error(`格式 ${book.format} 的章节不能在 Worker 中加载`);
+      }
+      const layers = await this.adapter(book.format).loadChapter(book, request.chapterId);
+      this.post({ type: 'result', id: request.id, result: layers });
+    } catch (error) {
+      this.post({
+        type: 'error',
+        id: request.id,
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private adapter(format: BookFormat): FormatAdapter {
+    const adapter = ParserWorker.ADAPTERS[format];
+    if (!adapter) {
+      throw new Error(`格式 ${format} 不能在 Worker 中解析`);
+    }
+    return adapter;
+  }
+}
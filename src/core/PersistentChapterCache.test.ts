@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PersistentChapterCache } from './PersistentChapterCache';
+import { parserService } from './ParserService';
+import { TxtAdapter } from '@/adapters/TxtAdapter';
+import { db } from '@/db';
+import type { UnifiedBook } from '@/types/book';
+
+const TEXT = ['第一章 开始', '天色渐暗。', '第二章 相遇', '他们在桥上相遇。'].join('\n');
+
+async function createBook(): Promise<UnifiedBook> {
+  const data = new TextEncoder().encode(TEXT).buffer as ArrayBuffer;
+  const book = await TxtAdapter.parse(data, 'novel.txt');
+  book.id = 1;
+  book.dataHash = await PersistentChapterCache.digest(data);
+  return book;
+}
+
+describe('PersistentChapterCache', () => {
+  beforeEach(async () => {
+    await db.parsedChapters.clear();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    await db.parsedChapters.clear();
+  });
+
+  it('serves a chapter from IndexedDB without parsing it again', async () => {
+    const book = await createBook();
+    const layers = await PersistentChapterCache.load(book, 1);
+    await vi.waitFor(async () => expect(await db.parsedChapters.count()).toBe(1));
+
+    const loadChapter = vi.spyOn(parserService, 'loadChapter');
+    const cached = await PersistentChapterCache.load(book, 1);
+
+    expect(loadChapter).toHaveBeenCalledTimes(0);
+    expect(cached).toEqual(layers);
+  });
+
+  it('skips the write for one-shot loads', async () => {
+    const book = await createBook();
+    const put = vi.spyOn(db.parsedChapters, 'put');
+
+    const layers = await PersistentChapterCache.load(book, 1, undefined, { persist: false });
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(layers[0].paragraphs).toEqual(['他们在桥上相遇。']);
+    expect(put).toHaveBeenCalledTimes(0);
+    expect(await db.parsedChapters.count()).toBe(0);
+  });
+
+  it('re-parses when the raw data or parse options change', async () => {
+    const book = await createBook();
+    await PersistentChapterCache.load(book, 0);
+    await vi.waitFor(async () => expect(await db.parsedChapters.count()).toBe(1));
+    const original = PersistentChapterCache.signature(book);
+
+    const loadChapter = vi.spyOn(parserService, 'loadChapter');
+    book.reflow = { enabled: true, manual: true };
+    await PersistentChapterCache.load(book, 0);
+    book.dataHash = 'changed';
+    await PersistentChapterCache.load(book, 0);
+
+    expect(loadChapter).toHaveBeenCalledTimes(2);
+    await vi.waitFor(async () => {
+      expect((await db.parsedChapters.get([1, 0]))?.signature).toBe(PersistentChapterCache.signature(book));
+    });
+    expect(PersistentChapterCache.signature(book)).toContain('txt@1:changed:');
+    expect(original).toContain(`txt@1:${(await createBook()).dataHash}:`);
+  });
+
+  it('stores images as blobs and restores them as blob URLs', async () => {
+    const book = await createBook();
+    const image = new Blob([new Uint8Array([1, 2, 3, 4])], { type: 'image/png' });
+    // happy-dom 的 fetch 不支持 blob: 协议，fake-indexeddb 也无法克隆 happy-dom 的 Blob，
+    // 这里在表的读写边界检查转换
+    vi.stubGlobal('fetch', async () => new Response(image));
+    vi.spyOn(parserService, 'loadChapter').mockResolvedValue([
+      { paragraphs: ['图注'], startIndex: 0, image: URL.createObjectURL(image), imageSize: image.size }
+    ]);
+    const put = vi.spyOn(db.parsedChapters, 'put');
+
+    await PersistentChapterCache.load(book, 0);
+    await vi.waitFor(() => expect(put).toHaveBeenCalledTimes(1));
+
+    const entry = put.mock.calls[0][0];
+    expect(entry.layers[0].image).toBeInstanceOf(Blob);
+    expect(entry.layers[0].image?.size).toBe(4);
+    expect(entry.layers[0].imageSize).toBe(4);
+
+    vi.spyOn(db.parsedChapters, 'get').mockResolvedValue({ ...entry, layers: [{ ...entry.layers[0], image }] });
+    const [layer] = await PersistentChapterCache.load(book, 0);
+    expect(layer.image).toMatch(/^blob:/);
+    expect(layer.imageSize).toBe(4);
+    expect(layer.paragraphs).toEqual(['图注']);
+  });
+
+  it('clears every cached chapter of a book', async () => {
+    const book = await createBook();
+    await PersistentChapterCache.load(book, 0);
+    await PersistentChapterCache.load(book, 1);
+    await vi.waitFor(async () => expect(await db.parsedChapters.count()).toBe(2));
+
+    expect(await PersistentChapterCache.clearBook(1)).toBe(2);
+    expect(await db.parsedChapters.count()).toBe(0);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * 持久化章节缓存（ChapterCache 之后的二级缓存）
+ * 把解析好的 ContentLayer 存入 IndexedDB，再次打开书籍时不必重新解析章节
+ *
+ * - 图片以 Blob 保存，读取时重新创建 Blob URL
+ * - 每条记录带有签名：适配器版本 + 原始数据摘要 + 解析选项（编码、分章规则、重排），
+ *   签名不一致的记录视为过期，读取时删除，加载后覆盖
+ * - 缓存读写失败（如存储配额不足）只记录日志，不影响阅读
+ */
+
+import type { UnifiedBook, ContentLayer } from '@/types/book';
+import { db, type StoredLayer } from '@/db';
+import { adapterRegistry } from '@/adapters/AdapterRegistry';
+import { LayerBuilder } from '@/adapters/LayerBuilder';
+import { parserService } from './ParserService';
+
+export class PersistentChapterCache {
+  /**
+   * 加载章节：先查持久化缓存，未命中时经由解析服务加载并在后台写入缓存
+   * 取消时以 AbortError 拒绝，从缓存恢复的图片 Blob URL 随之释放
+   *
+   * @param options.persist - 是否写入持久化缓存（默认写入）；用完即释放的一次性读取（如全文搜索）应传 false，
+   *   否则后台写入读取图片 Blob URL 时，图片可能已被释放
+   */
+  static async load(
+    book: UnifiedBook,
+    chapterId: number,
+    signal?: AbortSignal,
+    options: { persist?: boolean } = {}
+  ): Promise<ContentLayer[]> {
+    const signature = this.signature(book);
+
+    if (signature) {
+      const cached = await this.get(book.id!, chapterId, signature);
+      if (cached) {
+        LayerBuilder.discardIfAborted(cached, signal);
+        console.log('[PersistentChapterCache] 命中持久化缓存:', chapterId);
+        return cached;
+      }
+    }
+
+    const layers = await parserService.loadChapter(book, chapterId, signal);
+
+    if (signature && options.persist !== false) {
+      // 不等待写入完成，避免拖慢翻章
+      void this.put(book.id!, chapterId, signature, layers);
+    }
+    return layers;
+  }
+
+  /**
+   * 计算原始数据的 SHA-256 摘要（十六进制）
+   * 不支持 crypto.subtle 的环境（非安全上下文）返回 undefined，此时不使用持久化缓存
+   */
+  static async digest(data: ArrayBuffer): Promise<string | undefined> {
+    if (!globalThis.crypto?.subtle) return undefined;
+
+    const hash = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(hash), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * 删除一本书的全部缓存章节（删除书籍时调用）
+   */
+  static async clearBook(bookId: number): Promise<number> {
+    return db.parsedChapters.where('bookId').equals(bookId).delete();
+  }
+
+  /**
+   * 书籍当前的缓存签名；未入库或缺少数据摘要的书不缓存
+   */
+  static signature(book: UnifiedBook): string | null {
+    if (book.id === undefined || !book.dataHash || !adapterRegistry.has(book.format)) {
+      return null;
+    }
+
+    const adapter = adapterRegistry.get(book.format);
+    const options = JSON.stringify({
+      encoding: book.textEncoding?.encoding,
+      chapterRule: book.chapterRule,
+      reflow: book.reflow?.enabled,
+      chapterHeadingLevel: book.chapterHeadingLevel
+    });
+    return `${adapter.format}@${adapter.version}:${book.dataHash}:${options}`;
+  }
+
+  private static async get(bookId: number, chapterId: number, signature: string): Promise<ContentLayer[] | null> {
+    try {
+      const entry = await db.parsedChapters.get([bookId, chapterId]);
+      if (!entry) return null;
+
+      if (entry.signature !== signature) {
+        console.log('[PersistentChapterCache] 缓存已过期:', bookId, chapterId);
+        await db.parsedChapters.delete([bookId, chapterId]);
+        return null;
+      }
+
+      return entry.layers.map(({ image, ...layer }) => image
+        ? { ...layer, image: URL.createObjectURL(image), imageSize: image.size }
+        : layer);
+    } catch (error) {
+      console.warn('[PersistentChapterCache] 读取缓存失败:', bookId, chapterId, error);
+      return null;
+    }
+  }
+
+  private static async put(bookId: number, chapterId: number, signature: string, layers: ContentLayer[]): Promise<void> {
+    try {
+      const stored: StoredLayer[] = [];
+      for (const { image, ...layer } of layers) {
+        stored.push(image ? { ...layer, image: await this.fetchBlob(image) } : layer);
+      }
+
+      await db.parsedChapters.put({ bookId, chapterId, signature, layers: stored, updateTime: Date.now() });
+    } catch (error) {
+      console.warn('[PersistentChapterCache] 写入缓存失败:', bookId, chapterId, error);
+    }
+  }
+
+  /**
+   * 读取 Blob URL 对应的 Blob
+   */
+  private static async fetchBlob(url: string): Promise<Blob> {
+    const response = await fetch(url);
+    return response.blob();
+  }
+}
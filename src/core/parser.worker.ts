@@ -0,0 +1,17 @@
+/**
+ * 解析 Worker 入口（由 ParserService 创建）
+ */
+
+import { ParserWorker, type ParserRequest, type ParserResponse } from './ParserWorker';
+
+// tsconfig 只包含 DOM 类型库，这里声明用到的 DedicatedWorkerGlobalScope 成员
+const scope = self as unknown as {
+  postMessage(message: ParserResponse, transfer?: Transferable[]): void;
+  onmessage: ((event: MessageEvent<ParserRequest>) => void) | null;
+};
+
+const worker = new ParserWorker((response, transfer) => scope.postMessage(response, transfer));
+
+scope.onmessage = event => {
+  worker.handle(event.data);
+};
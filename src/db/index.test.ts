@@ -1,16 +1,22 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { db, Book, Progress } from './index';
+import { db, Book, Progress, Bookmark, migrateProgressToParagraphs } from './index';
 
 describe('Database Schema', () => {
   // Clean up database before and after each test
   beforeEach(async () => {
     await db.books.clear();
     await db.progress.clear();
+    await db.bookmarks.clear();
+    await db.serverBooks.clear();
+    await db.serverProgress.clear();
   });
 
   afterEach(async () => {
     await db.books.clear();
     await db.progress.clear();
+    await db.bookmarks.clear();
+    await db.serverBooks.clear();
+    await db.serverProgress.clear();
   });
 
   describe('Database Initialization', () => {
@@ -274,6 +280,77 @@ describe('Database Schema', () => {
       expect(progressDesc[0].updateTime).toBe(2000);
       expect(progressDesc[1].updateTime).toBe(1000);
     });
+
+    it('should migrate local pixel and page positions to paragraph anchors', async () => {
+      const book = (format: Book['format']): Book => ({
+        title: format,
+        author: 'Test Author',
+        format,
+        cover: null,
+        data: new ArrayBuffer(10),
+        addTime: Date.now()
+      });
+      const txtId = await db.books.add(book('txt'));
+      const cbzId = await db.books.add(book('cbz'));
+
+      const txtProgress = await db.progress.add({ bookId: txtId, chapterIndex: 3, position: 1500, updateTime: 1 });
+      const cbzProgress = await db.progress.add({ bookId: cbzId, chapterIndex: 1, position: 7, updateTime: 1 });
+      const onlineProgress = await db.progress.add({ bookId: 9999, chapterIndex: 2, position: 800, updateTime: 1 });
+
+      await migrateProgressToParagraphs(db.progress, db.books, db.serverBooks, db.serverProgress);
+
+      expect(await db.progress.get(txtProgress)).toMatchObject({ chapterIndex: 3, paragraphIndex: 0, paragraphOffset: 0 });
+      expect(await db.progress.get(cbzProgress)).toMatchObject({ chapterIndex: 1, paragraphIndex: 7, paragraphOffset: 0 });
+      expect((await db.progress.get(txtProgress))?.position).toBeUndefined();
+      expect(await db.progress.get(onlineProgress)).toMatchObject({ position: 800 });
+      expect((await db.progress.get(onlineProgress))?.paragraphIndex).toBeUndefined();
+    });
+
+    it('should move online progress to its own table and leave ambiguous records untouched', async () => {
+      const localId = await db.books.add({
+        title: 'Local', author: 'Test Author', format: 'txt', cover: null, data: new ArrayBuffer(10), addTime: 1
+      });
+      const serverOnlyId = localId + 1;
+      await db.serverBooks.bulkPut([
+        { serverBookId: localId, title: 'Online', author: 'Server', addTime: 1 },
+        { serverBookId: serverOnlyId, title: 'Online 2', author: 'Server', addTime: 1 }
+      ]);
+
+      // 本地书籍与服务器书籍 ID 相同：无法确定是哪个阅读器写的
+      const ambiguous = await db.progress.add({ bookId: localId, chapterIndex: 4, position: 1200, updateTime: 1 });
+      const online = await db.progress.add({ bookId: serverOnlyId, chapterIndex: 2, position: 800, updateTime: 2 });
+
+      await migrateProgressToParagraphs(db.progress, db.books, db.serverBooks, db.serverProgress);
+
+      expect(await db.progress.get(ambiguous)).toMatchObject({ chapterIndex: 4, position: 1200 });
+      expect((await db.progress.get(ambiguous))?.paragraphIndex).toBeUndefined();
+      expect(await db.progress.get(online)).toBeUndefined();
+      expect(await db.serverProgress.get(localId)).toMatchObject({ chapterIndex: 4, position: 1200 });
+      expect(await db.serverProgress.get(serverOnlyId)).toMatchObject({ chapterIndex: 2, position: 800, updateTime: 2 });
+    });
+  });
+
+  describe('Bookmarks Table', () => {
+    it('should store several bookmarks per book and query them by bookId', async () => {
+      const bookmark = (bookId: number, paragraphIndex: number, note?: string): Bookmark => ({
+        bookId,
+        chapterIndex: 2,
+        paragraphIndex,
+        excerpt: `段落 ${paragraphIndex}`,
+        note,
+        color: '#f5a623',
+        createTime: Date.now()
+      });
+
+      await db.bookmarks.bulkAdd([bookmark(1, 5), bookmark(1, 12, '伏笔'), bookmark(2, 0)]);
+
+      const results = await db.bookmarks.where('bookId').equals(1).toArray();
+      expect(results.map(b => b.paragraphIndex).sort((a, b) => a - b)).toEqual([5, 12]);
+      expect(results.find(b => b.paragraphIndex === 12)?.note).toBe('伏笔');
+
+      await db.bookmarks.where('bookId').equals(1).delete();
+      expect(await db.bookmarks.count()).toBe(1);
+    });
   });
 
   describe('Database Operations', () => {
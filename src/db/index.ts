@@ -1,32 +1,96 @@
 import Dexie, { Table } from 'dexie';
-import type { UnifiedBook } from '@/types/book';
+import type { UnifiedBook, ContentLayer, BookFormat, BookMetadata, ChapterRule, TxtChapterIndex } from '@/types/book';
 
 /**
  * Book interface representing a stored book in the database
+ * Extended metadata (description, publisher, language, publishDate, identifier,
+ * subjects, series, seriesIndex) comes from BookMetadata and is user-editable
  */
-export interface Book {
+export interface Book extends BookMetadata {
   id?: number;              // Auto-increment primary key
   title: string;            // Book title (extracted from metadata or filename)
   author: string;           // Author name (extracted from metadata or 'Unknown')
-  format: 'epub' | 'txt';   // File format
+  format: BookFormat;       // File format (see AdapterRegistry)
   cover: Blob | null;       // Cover image as Blob (more efficient than Base64)
   data: ArrayBuffer;        // Raw book file data
+  dataHash?: string;        // SHA-256 of data, keys the parsed chapter cache (computed on first open for older books)
   addTime: number;          // Timestamp when book was imported
   chapterCount?: number;    // Total number of chapters (for progress calculation)
+  chapterRule?: ChapterRule; // TXT chapter detection rule used at import
+  encoding?: string;        // Text encoding chosen manually in the reader (auto-detected when absent)
+  chapterIndex?: TxtChapterIndex; // TXT chapter byte offsets, rebuilt when encoding or rule changes
+  reflow?: boolean;         // TXT hard-wrap reflow chosen manually in the reader (auto-detected when absent)
+  chapterHeadingLevel?: number; // HTML / Markdown maximum heading level that starts a chapter, used at import
 }
 
 /**
  * Progress interface representing reading progress for a book
+ * Local books are anchored to a paragraph (see ReadingProgress), so the position survives typography changes;
+ * the online reader still stores a pixel scroll position
  */
 export interface Progress {
   id?: number;              // Auto-increment primary key
   bookId: number;           // Foreign key to books table
   chapterIndex: number;     // Current chapter index (0-based)
   chapterTitle?: string;    // Current chapter title for display
-  position: string | number; // CFI string for EPUB, scroll position for TXT
+  position?: string | number; // Legacy scroll position from before version 7 (pixels, CBZ page or EPUB CFI)
+  paragraphIndex?: number;  // Global index of the paragraph at the top of the viewport (ContentLayer.startIndex scheme)
+  paragraphOffset?: number; // Position of the viewport top within that paragraph (0-1)
   updateTime: number;       // Timestamp of last update
 }
 
+/**
+ * Bookmark interface representing a marked paragraph in a local book
+ * A book can have any number of bookmarks; they are deleted together with the book
+ */
+export interface Bookmark {
+  id?: number;              // Auto-increment primary key
+  bookId: number;           // Foreign key to books table
+  chapterIndex: number;     // Chapter index (0-based)
+  paragraphIndex: number;   // Global index of the marked paragraph (ContentLayer.startIndex scheme)
+  excerpt: string;          // Beginning of the paragraph text, shown in the bookmarks panel
+  note?: string;            // Optional user note
+  color: string;            // Marker color (CSS color)
+  createTime: number;       // Timestamp when the bookmark was added
+}
+
+/**
+ * Highlight interface representing a highlighted text range with an optional private note
+ * The range is stored as paragraph global indices and character offsets into the paragraph text,
+ * so it does not depend on typography or on how the chapter is split into layers
+ */
+export interface Highlight {
+  id?: number;              // Auto-increment primary key
+  bookId: number;           // Foreign key to books table
+  chapterIndex: number;     // Chapter index (0-based)
+  paragraphIndex: number;   // Global index of the first highlighted paragraph
+  startOffset: number;      // Character offset in the first paragraph
+  endParagraphIndex: number; // Global index of the last highlighted paragraph
+  endOffset: number;        // Character offset in the last paragraph (exclusive)
+  text: string;             // Highlighted text, shown in the annotations list
+  color: string;            // Highlight color (CSS color)
+  note?: string;            // Optional private note
+  createTime: number;       // Timestamp when the highlight was added
+}
+
+/**
+ * ContentLayer as stored in IndexedDB: images are kept as Blobs (blob URLs do not survive a reload)
+ */
+export type StoredLayer = Omit<ContentLayer, 'image'> & { image?: Blob };
+
+/**
+ * Parsed chapter cache entry
+ * signature combines the adapter version, the raw data hash and the parse options;
+ * an entry whose signature differs from the book's current one is stale
+ */
+export interface ParsedChapter {
+  bookId: number;
+  chapterId: number;
+  signature: string;
+  layers: StoredLayer[];
+  updateTime: number;
+}
+
 export interface ServerBook {
   serverBookId: number;
   title: string;
@@ -40,6 +104,17 @@ export interface ServerBook {
   localFileName?: string;
 }
 
+/**
+ * Online reader progress, kept apart from local progress because server book IDs overlap local book IDs
+ */
+export interface ServerProgress {
+  serverBookId: number;     // Primary key, the server book ID
+  chapterIndex: number;     // Current chapter index (0-based)
+  chapterTitle?: string;    // Current chapter title for display
+  position: number;         // Scroll position in pixels
+  updateTime: number;       // Timestamp of last update
+}
+
 export interface ServerChapter {
   chapterId: number;
   serverBookId: number;
@@ -66,8 +141,22 @@ export function unifiedBookToBook(unifiedBook: UnifiedBook): Book {
     format: unifiedBook.format,
     cover: unifiedBook.cover,
     data: unifiedBook.rawData,
+    dataHash: unifiedBook.dataHash,
     addTime: unifiedBook.addTime,
-    chapterCount: unifiedBook.chapters.length
+    description: unifiedBook.description,
+    publisher: unifiedBook.publisher,
+    language: unifiedBook.language,
+    publishDate: unifiedBook.publishDate,
+    identifier: unifiedBook.identifier,
+    subjects: unifiedBook.subjects,
+    series: unifiedBook.series,
+    seriesIndex: unifiedBook.seriesIndex,
+    chapterCount: unifiedBook.chapters.length,
+    chapterRule: unifiedBook.chapterRule,
+    encoding: unifiedBook.textEncoding?.manual ? unifiedBook.textEncoding.encoding : undefined,
+    chapterIndex: unifiedBook.chapterIndex,
+    reflow: unifiedBook.reflow?.manual ? unifiedBook.reflow.enabled : undefined,
+    chapterHeadingLevel: unifiedBook.chapterHeadingLevel
   };
 }
 
@@ -83,22 +172,48 @@ export function bookToUnifiedBook(book: Book): Partial<UnifiedBook> {
     format: book.format,
     cover: book.cover,
     rawData: book.data,
+    dataHash: book.dataHash,
     addTime: book.addTime,
+    description: book.description,
+    publisher: book.publisher,
+    language: book.language,
+    publishDate: book.publishDate,
+    identifier: book.identifier,
+    subjects: book.subjects,
+    series: book.series,
+    seriesIndex: book.seriesIndex,
+    chapterRule: book.chapterRule,
+    textEncoding: book.encoding ? { encoding: book.encoding, confidence: 1, manual: true } : undefined,
+    chapterIndex: book.chapterIndex,
+    reflow: book.reflow !== undefined ? { enabled: book.reflow, manual: true } : undefined,
+    chapterHeadingLevel: book.chapterHeadingLevel,
     chapters: [] // 需要通过适配器解析
   };
 }
 
+/**
+ * Reads the metadata stored in an EPUB file, used by the version 5 backfill
+ */
+export type EpubMetadataReader = (data: ArrayBuffer) => Promise<BookMetadata & { title?: string; author?: string }>;
+
 /**
  * LibraryDatabase class extending Dexie for IndexedDB operations
  */
 class LibraryDatabase extends Dexie {
   books!: Table<Book>;
   progress!: Table<Progress>;
+  bookmarks!: Table<Bookmark>;
+  highlights!: Table<Highlight>;
   serverBooks!: Table<ServerBook>;
+  serverProgress!: Table<ServerProgress>;
   serverChapters!: Table<ServerChapter>;
   serverChapterContents!: Table<ServerChapterContent>;
+  parsedChapters!: Table<ParsedChapter>;
 
-  constructor() {
+  /**
+   * @param readEpubMetadata - Injected so the database module does not depend on the EPUB parser
+   */
+  constructor(readEpubMetadata: EpubMetadataReader) {
     super('LibraryDatabase');
     
     // Define database schema
@@ -134,11 +249,131 @@ class LibraryDatabase extends Dexie {
       serverChapters: 'chapterId, serverBookId, updateTime, sortOrder',
       serverChapterContents: 'chapterId, serverBookId'
     });
+
+    // Version 5: Extended metadata (index series for grouping)
+    // Backfill EPUB metadata from the stored OPF; other formats keep what they had
+    this.version(5).stores({
+      books: '++id, title, format, addTime, chapterCount, series',
+      progress: '++id, bookId, updateTime, chapterTitle',
+      serverBooks: 'serverBookId, addTime, title',
+      serverChapters: 'chapterId, serverBookId, updateTime, sortOrder',
+      serverChapterContents: 'chapterId, serverBookId'
+    }).upgrade(async tx => {
+      const books = tx.table('books');
+      const ids = await books.where('format').equals('epub').primaryKeys();
+
+      // 逐本读取，避免一次把所有书的原始数据载入内存
+      for (const id of ids) {
+        const book: Book | undefined = await books.get(id);
+        if (!book?.data) continue;
+        try {
+          // 解压和 XML 解析不在 IndexedDB 事务内，需要 waitFor 保持事务
+          const { title: _title, author: _author, ...metadata } = await Dexie.waitFor(readEpubMetadata(book.data));
+          await books.update(id, metadata);
+        } catch (error) {
+          console.warn('[db] EPUB 元数据迁移失败，跳过:', id, error);
+        }
+      }
+    });
+
+    // Version 6: Parsed chapter cache (second-level cache behind ChapterCache)
+    this.version(6).stores({
+      books: '++id, title, format, addTime, chapterCount, series',
+      progress: '++id, bookId, updateTime, chapterTitle',
+      serverBooks: 'serverBookId, addTime, title',
+      serverChapters: 'chapterId, serverBookId, updateTime, sortOrder',
+      serverChapterContents: 'chapterId, serverBookId',
+      parsedChapters: '[bookId+chapterId], bookId'
+    });
+
+    // Version 7: Paragraph-anchored progress for local books, online progress in its own table
+    this.version(7).stores({
+      books: '++id, title, format, addTime, chapterCount, series',
+      progress: '++id, bookId, updateTime, chapterTitle',
+      serverBooks: 'serverBookId, addTime, title',
+      serverProgress: 'serverBookId, updateTime',
+      serverChapters: 'chapterId, serverBookId, updateTime, sortOrder',
+      serverChapterContents: 'chapterId, serverBookId',
+      parsedChapters: '[bookId+chapterId], bookId'
+    }).upgrade(tx => migrateProgressToParagraphs(
+      tx.table('progress'), tx.table('books'), tx.table('serverBooks'), tx.table('serverProgress')
+    ));
+
+    // Version 8: Bookmarks for local books
+    this.version(8).stores({
+      books: '++id, title, format, addTime, chapterCount, series',
+      progress: '++id, bookId, updateTime, chapterTitle',
+      bookmarks: '++id, bookId, createTime',
+      serverBooks: 'serverBookId, addTime, title',
+      serverProgress: 'serverBookId, updateTime',
+      serverChapters: 'chapterId, serverBookId, updateTime, sortOrder',
+      serverChapterContents: 'chapterId, serverBookId',
+      parsedChapters: '[bookId+chapterId], bookId'
+    });
+
+    // Version 9: Text highlights and annotations for local books
+    this.version(9).stores({
+      books: '++id, title, format, addTime, chapterCount, series',
+      progress: '++id, bookId, updateTime, chapterTitle',
+      bookmarks: '++id, bookId, createTime',
+      highlights: '++id, bookId, createTime',
+      serverBooks: 'serverBookId, addTime, title',
+      serverProgress: 'serverBookId, updateTime',
+      serverChapters: 'chapterId, serverBookId, updateTime, sortOrder',
+      serverChapterContents: 'chapterId, serverBookId',
+      parsedChapters: '[bookId+chapterId], bookId'
+    });
   }
 }
 
+/**
+ * 将本地书籍的旧进度记录（position 为像素滚动位置、页码或 CFI）迁移为段落锚点
+ * - CBZ 翻页模式保存的是页码，每页一个 layer、每张图片占一个索引，页码即段落索引
+ * - 像素位置和 CFI 在没有排版的情况下无法换算，定位到所在章节的开头
+ * 旧版在线阅读器把服务器书籍 ID 写在同一张表里，而服务器书籍 ID 与本地书籍 ID 会重叠：
+ * - 只迁移能确定属于本地书籍的记录（bookId 是本地书籍、且不是缓存过的服务器书籍）
+ * - 缓存过的服务器书籍的记录复制到 serverProgress；bookId 不是本地书籍的从 progress 中移除
+ * - 无法确定归属的记录保持不变，本地阅读器从所在章节的开头打开
+ */
+export async function migrateProgressToParagraphs(
+  progress: Table<Progress>,
+  books: Table<Book>,
+  serverBooks: Table<ServerBook>,
+  serverProgress: Table<ServerProgress>
+): Promise<void> {
+  // 只读取主键，不把书籍的原始数据载入内存
+  const localIds = new Set(await books.toCollection().primaryKeys());
+  const serverIds = new Set(await serverBooks.toCollection().primaryKeys());
+  const cbzIds = new Set(await books.where('format').equals('cbz').primaryKeys());
+
+  const legacy = await progress.filter(record => record.paragraphIndex === undefined).toArray();
+  const online = legacy.filter(record => serverIds.has(record.bookId) && typeof record.position === 'number');
+  await serverProgress.bulkPut(online.map(record => ({
+    serverBookId: record.bookId,
+    chapterIndex: record.chapterIndex,
+    chapterTitle: record.chapterTitle,
+    position: record.position as number,
+    updateTime: record.updateTime
+  })));
+  await progress.bulkDelete(online.filter(record => !localIds.has(record.bookId)).map(record => record.id!));
+
+  await progress.toCollection().modify(record => {
+    if (!localIds.has(record.bookId) || serverIds.has(record.bookId) || record.paragraphIndex !== undefined) return;
+
+    record.paragraphIndex = cbzIds.has(record.bookId) && typeof record.position === 'number'
+      ? Math.max(0, Math.floor(record.position))
+      : 0;
+    record.paragraphOffset = 0;
+    delete record.position;
+  });
+}
+
 // Export singleton database instance
-export const db = new LibraryDatabase();
+// The EPUB parser (epubjs, JSZip) is only loaded when the version 5 backfill finds EPUB books
+export const db = new LibraryDatabase(async data => {
+  const { EpubAdapter } = await import('@/adapters/EpubAdapter');
+  return EpubAdapter.readMetadata(data);
+});
 
 /**
  * 获取下一个可用的书籍 ID
@@ -8,6 +8,7 @@ import { defineStore } from 'pinia';
 import { ref, computed } from 'vue';
 import type { UnifiedBook, ContentLayer } from '@/types/book';
 import { ChapterCache } from '@/core/ChapterCache';
+import { BookSearch, type SearchBatch } from '@/core/BookSearch';
 
 export const useReaderStore = defineStore('reader', () => {
   // ========== 状态 ==========
@@ -24,6 +25,9 @@ export const useReaderStore = defineStore('reader', () => {
   // 章节缓存管理器
   let chapterCache: ChapterCache | null = null;
   
+  // 正在进行的章节加载（新的加载请求会取消它）
+  let loadController: AbortController | null = null;
+  
   // 加载状态
   const loading = ref(false);
   
@@ -38,6 +42,9 @@ export const useReaderStore = defineStore('reader', () => {
   // 行高
   const lineHeight = ref<number>(1.8);
   
+  // 阅读方式：全书连续滚动 / 按页翻阅（CSS 多栏排版当前章节）
+  const readingMode = ref<'scroll' | 'paginated'>('scroll');
+  
   // 背景色
   const backgroundColor = ref<string>('#ffffff');
   
@@ -46,6 +53,9 @@ export const useReaderStore = defineStore('reader', () => {
   
   // 内容最大宽度 (px)
   const maxWidth = ref<number>(900);
+  
+  // 图片页适配方式（纯图片章节翻页模式）：适应宽度 / 适应高度
+  const imageFit = ref<'width' | 'height'>('width');
 
   // ========== 计算属性 ==========
   
@@ -90,6 +100,7 @@ export const useReaderStore = defineStore('reader', () => {
     console.log('[ReaderStore] 设置活动书籍:', book.title);
     
     // 清理旧的缓存
+    cancelLoad();
     if (chapterCache) {
       chapterCache.clear();
     }
@@ -105,6 +116,7 @@ export const useReaderStore = defineStore('reader', () => {
   
   /**
    * 加载章节
+   * 以最后一次请求为准：新的请求会取消尚未完成的旧请求，被取消的请求直接返回，不修改当前章节
    */
   async function loadChapter(chapterId: number): Promise<void> {
     if (!activeBook.value || !chapterCache) {
@@ -115,26 +127,48 @@ export const useReaderStore = defineStore('reader', () => {
       throw new Error('章节ID超出范围');
     }
     
+    cancelLoad();
+    const controller = new AbortController();
+    loadController = controller;
+    
     loading.value = true;
     error.value = '';
     
     try {
       console.log('[ReaderStore] 加载章节:', chapterId);
-      const layers = await chapterCache.getChapter(chapterId);
+      const layers = await chapterCache.getChapter(chapterId, controller.signal);
+      // 命中缓存的章节在取消后仍可能正常返回
+      if (controller.signal.aborted) return;
       
       currentChapterId.value = chapterId;
       currentLayers.value = layers;
       
       console.log('[ReaderStore] 章节加载成功，layers 数:', layers.length);
     } catch (err) {
+      if (controller.signal.aborted) {
+        console.log('[ReaderStore] 章节加载已取消:', chapterId);
+        return;
+      }
       console.error('[ReaderStore] 章节加载失败:', err);
       error.value = err instanceof Error ? err.message : '章节加载失败';
       throw err;
     } finally {
-      loading.value = false;
+      if (loadController === controller) {
+        loadController = null;
+        loading.value = false;
+      }
     }
   }
   
+  /**
+   * 取消正在进行的章节加载
+   */
+  function cancelLoad(): void {
+    loadController?.abort();
+    loadController = null;
+    loading.value = false;
+  }
+  
   /**
    * 上一章
    */
@@ -162,6 +196,34 @@ export const useReaderStore = defineStore('reader', () => {
     await loadChapter(chapterId);
   }
   
+  /**
+   * 读取指定章节内容（经由 ChapterCache，不改变当前章节）
+   * 滚动视图用它加载当前章附近需要渲染的章节
+   */
+  async function readChapter(chapterId: number, signal?: AbortSignal): Promise<ContentLayer[]> {
+    if (!chapterCache) {
+      throw new Error('没有活动的书籍');
+    }
+    return chapterCache.readChapter(chapterId, signal);
+  }
+
+  /**
+   * 预加载指定章节（经由 ChapterCache，不改变当前章节）
+   */
+  function prefetchChapter(chapterId: number): void {
+    chapterCache?.prefetch([chapterId]);
+  }
+
+  /**
+   * 全文搜索当前书籍（经由 ChapterCache 逐章扫描，每扫描完一章产出一批结果）
+   */
+  function search(pattern: RegExp, signal?: AbortSignal): AsyncGenerator<SearchBatch> {
+    if (!activeBook.value || !chapterCache) {
+      throw new Error('没有活动的书籍');
+    }
+    return BookSearch.search(chapterCache, activeBook.value.chapters, pattern, signal);
+  }
+  
   /**
    * 设置字体大小
    */
@@ -178,6 +240,14 @@ export const useReaderStore = defineStore('reader', () => {
     savePreferences();
   }
   
+  /**
+   * 设置阅读方式
+   */
+  function setReadingMode(mode: 'scroll' | 'paginated'): void {
+    readingMode.value = mode;
+    savePreferences();
+  }
+  
   /**
    * 设置背景色
    */
@@ -194,6 +264,14 @@ export const useReaderStore = defineStore('reader', () => {
     savePreferences();
   }
   
+  /**
+   * 设置图片页适配方式
+   */
+  function setImageFit(fit: 'width' | 'height'): void {
+    imageFit.value = fit;
+    savePreferences();
+  }
+  
   /**
    * 保存偏好设置到 localStorage
    */
@@ -201,8 +279,10 @@ export const useReaderStore = defineStore('reader', () => {
     const preferences = {
       fontSize: fontSize.value,
       lineHeight: lineHeight.value,
+      readingMode: readingMode.value,
       backgroundColor: backgroundColor.value,
-      textColor: textColor.value
+      textColor: textColor.value,
+      imageFit: imageFit.value
     };
     localStorage.setItem('reader-preferences', JSON.stringify(preferences));
   }
@@ -217,8 +297,10 @@ export const useReaderStore = defineStore('reader', () => {
         const preferences = JSON.parse(saved);
         fontSize.value = preferences.fontSize || 18;
         lineHeight.value = preferences.lineHeight || 1.8;
+        readingMode.value = preferences.readingMode === 'paginated' ? 'paginated' : 'scroll';
         backgroundColor.value = preferences.backgroundColor || '#ffffff';
         textColor.value = preferences.textColor || '#333333';
+        imageFit.value = preferences.imageFit === 'height' ? 'height' : 'width';
       } catch (error) {
         console.error('[ReaderStore] 加载偏好设置失败:', error);
       }
@@ -229,6 +311,7 @@ export const useReaderStore = defineStore('reader', () => {
    * 清理资源
    */
   function cleanup(): void {
+    cancelLoad();
     if (chapterCache) {
       chapterCache.clear();
     }
@@ -259,9 +342,11 @@ export const useReaderStore = defineStore('reader', () => {
     // 样式设置
     fontSize,
     lineHeight,
+    readingMode,
     backgroundColor,
     textColor,
     maxWidth,
+    imageFit,
     
     // 计算属性
     currentChapter,
@@ -276,9 +361,14 @@ export const useReaderStore = defineStore('reader', () => {
     prevChapter,
     nextChapter,
     gotoChapter,
+    readChapter,
+    prefetchChapter,
+    search,
     setFontSize,
     setLineHeight,
+    setReadingMode,
     setBackgroundColor,
+    setImageFit,
     savePreferences,
     loadPreferences,
     cleanup,
@@ -27,6 +27,59 @@ export interface ContentLayer {
   paragraphs: string[];     // 段落数组，每个元素是一个段落
   startIndex: number;       // 该 Layer 第一段在整个章节中的全局绝对索引
   image?: string;           // 可选的图片 Blob URL（紧随段落之后，占用独立索引）
+  imageSize?: number;       // 图片字节数（供 ChapterCache 估算内存占用，未知时省略）
+  runs?: (InlineRun[] | null)[]; // 可选的富文本片段，与 paragraphs 一一对应（null 表示纯文本段落）
+  anchors?: Record<string, number>; // 本 Layer 内的锚点 id → 全局索引（供内部链接跳转）
+  blocks?: (ParagraphBlock | null)[]; // 可选的块类型，与 paragraphs 一一对应（null 表示普通段落）
+}
+
+/**
+ * 段落的块类型
+ * 每个块仍然只占用 1 个全局索引；paragraphs 中保存对应的纯文本
+ * （列表项不含编号，表格按行换行、单元格以制表符分隔，预格式文本保留换行）
+ */
+export type ParagraphBlock =
+  | { type: 'heading'; level: number }                          // h1-h6
+  | { type: 'list-item'; depth: number; marker: string }         // depth 从 0 开始，marker 如 "1." / "•"
+  | { type: 'quote' }
+  | { type: 'pre' }
+  | { type: 'table'; rows: string[][]; header: boolean };        // header 表示第一行为表头
+
+/**
+ * 行内格式标记
+ */
+export type InlineMark = 'em' | 'strong' | 'sup' | 'sub' | 'code' | 'underline' | 'strike';
+
+/**
+ * 行内文本片段
+ * 富文本段落由若干片段组成，片段文本拼接后与 paragraphs 中的纯文本一致
+ */
+export interface InlineRun {
+  text: string;
+  marks?: InlineMark[];
+  ruby?: string;            // 注音（<ruby> 的 <rt>），text 为被注音的文字
+  link?: InlineLink;
+  note?: InlineNote;        // 注释引用：text 为注释标记（如 "1"、"*"），点击显示注释内容
+}
+
+/**
+ * 链接目标
+ * 内部链接的 href 为书内文件路径（与 UnifiedChapter.href 相同格式），外部链接为原始 URL
+ */
+export interface InlineLink {
+  href: string;
+  anchor?: string;          // 内部链接的目标锚点
+  external?: boolean;
+}
+
+/**
+ * 脚注 / 尾注
+ * 注释正文随引用它的段落一起存储，不再作为章节末尾的独立段落
+ */
+export interface InlineNote {
+  id: string;               // 注释元素 id
+  kind: 'footnote' | 'endnote';
+  paragraphs: string[];
 }
 
 /**
@@ -47,39 +100,128 @@ export interface UnifiedChapter {
   title: string;           // 章节名称
   layers: ContentLayer[];  // 图文分层数组
   isLoaded: boolean;       // 是否已解析
-  href?: string;           // EPUB 章节的 href（可选，仅用于 EPUB）
+  href?: string;           // EPUB 章节所在文件的 href（不含片段，可选，仅用于 EPUB）
+  anchor?: string;         // EPUB 章节在文件内的起始锚点（id），同一文件包含多个子章节时使用
+  level?: number;          // 目录层级（0 为顶层，可选，用于嵌套章节）
+  parentId?: number;       // 父章节 id（顶层章节为空）
+}
+
+/**
+ * 书籍格式标识
+ * 由适配器注册表（AdapterRegistry）中的 FormatAdapter.format 决定，
+ * 内置 'epub' | 'txt'，新格式只需注册适配器即可扩展
+ */
+export type BookFormat = 'epub' | 'txt' | (string & {});
+
+/**
+ * TXT 章节识别规则
+ * preset 为 TxtAdapter.CHAPTER_PRESETS 中的预设 id，
+ * 'auto' 表示导入时自动选择，'custom' 表示使用 pattern 中的自定义正则
+ */
+export interface ChapterRule {
+  preset: string;
+  pattern?: string;        // 自定义正则源码（preset 为 'custom' 时使用）
+}
+
+/**
+ * TXT 章节偏移索引
+ * 解析时建立一次并随书保存，按章加载时只解码对应的字节片段；
+ * 编码或章节规则与建立索引时不一致时索引失效，需要重新建立
+ */
+export interface TxtChapterIndex {
+  encoding: TextEncoding;      // 建立索引时使用的编码
+  chapterRule: ChapterRule;    // 建立索引时使用的章节规则（已解析，不含 'auto'）
+  byteLength: number;          // 原始文件字节数（用于校验）
+  hardWrap: TxtHardWrap;       // 全文硬换行检测结果
+  chapters: TxtChapterRange[];
+}
+
+/**
+ * TXT 硬换行检测结果
+ * Project Gutenberg、OCR 等文本按固定列宽折行，需要把折行合并回段落
+ */
+export interface TxtHardWrap {
+  detected: boolean;           // 是否判定为硬换行文本
+  width: number;               // 估计的折行宽度（字符数）
+}
+
+/**
+ * 单个章节在原始文件中的字节范围
+ */
+export interface TxtChapterRange {
+  title: string;
+  start: number;               // 正文起始字节偏移（标题行之后）
+  end: number;                 // 正文结束字节偏移（不含，即下一章标题行的起点）
+}
+
+/**
+ * 文本编码信息（TXT 等纯文本格式）
+ * confidence 为自动检测的置信度（0~1），手动指定时为 1
+ */
+export interface TextEncoding {
+  encoding: string;        // TextDecoder 编码标签，如 'gb18030'
+  confidence: number;
+  manual?: boolean;        // 是否为用户手动指定（"按…编码重新解码"）
+}
+
+/**
+ * 段落重排设置（TXT 硬换行合并）
+ */
+export interface TextReflow {
+  enabled: boolean;        // 是否合并硬换行
+  manual?: boolean;        // 是否为用户手动指定（否则为自动检测结果）
+}
+
+/**
+ * 扩展元数据（可选，取决于格式是否提供；用户可在书架中编辑）
+ */
+export interface BookMetadata {
+  description?: string;    // 简介（纯文本）
+  publisher?: string;      // 出版社
+  language?: string;       // 语言（BCP 47，如 zh-CN）
+  publishDate?: string;    // 出版日期（YYYY、YYYY-MM 或 YYYY-MM-DD）
+  identifier?: string;     // ISBN（优先）或其他唯一标识
+  subjects?: string[];     // 主题 / 标签
+  series?: string;         // 系列名
+  seriesIndex?: number;    // 系列序号
 }
 
 /**
  * 统一书籍类
  * 所有格式的书籍都转换为这个统一结构
  */
-export interface UnifiedBook {
+export interface UnifiedBook extends BookMetadata {
   // 基本元数据
   id?: number;
   title: string;
   author: string;
   cover: Blob | null;
-  format: 'epub' | 'txt';
+  format: BookFormat;
+
+  // 解析选项（随书保存，保证每次重新解析结果一致）
+  chapterRule?: ChapterRule; // TXT 实际使用的章节识别规则
+  textEncoding?: TextEncoding; // TXT 实际使用的文本编码（按章加载时沿用）
+  chapterIndex?: TxtChapterIndex; // TXT 章节偏移索引
+  reflow?: TextReflow;     // TXT 段落重排
+  chapterHeadingLevel?: number; // HTML / Markdown 实际使用的分章标题级别
   
   // 章节数据
   chapters: UnifiedChapter[];
   
   // 原始数据（供按需解析使用）
   rawData: ArrayBuffer;
+  dataHash?: string;       // 原始数据的 SHA-256 摘要（持久化章节缓存据此判断数据是否变化）
   
   // 添加时间
   addTime: number;
 }
 
 /**
- * 阅读进度
+ * 阅读进度（与排版无关：字号、行高、窗口宽度变化后仍定位到同一段落）
  */
 export interface ReadingProgress {
-  bookId: number;
-  chapterId: number;     // 当前章节ID
-  layerIndex: number;    // 当前层索引
-  scrollOffset: number;  // 滚动偏移量
-  updateTime: number;
+  chapterId: number;       // 当前章节ID
+  paragraphIndex: number;  // 视口顶部所在段落的全局索引（按 ContentLayer.startIndex 计数，图片也占一个索引）
+  paragraphOffset: number; // 视口顶部在该段落内的位置（0-1，按段落高度的比例）
 }
 